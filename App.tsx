@@ -5,10 +5,41 @@
 
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { AppState } from './types';
-import { generateTextImage, generateTextVideo, generateStyleSuggestion } from './services/geminiService';
-import { getRandomStyle, fileToBase64, TYPOGRAPHY_SUGGESTIONS, createGifFromVideo } from './utils';
-import { Loader2, Paintbrush, Clapperboard, Play, ExternalLink, Type, Sparkles, Image as ImageIcon, X, Upload, Download, FileType, Wand2, Volume2, VolumeX, ChevronLeft, ChevronRight, ArrowLeft, Video as VideoIcon, Key, Info, ShieldCheck } from 'lucide-react';
+import { AppState, AnimationMode, AnimationOptions, CreationRecord, KeyframeCandidate, OutputFormat, SoundOptions } from './types';
+import { generateTextImage, generateTextVideo, generateStyleSuggestion, editTextImage, resumeTextVideo, isAbortError, DEFAULT_VIDEO_TIMEOUT_MS, resolveStyle, templateSnapshotsFor } from './services/geminiService';
+import { listPendingOperations } from './services/operationStore';
+import { describeError, ErrorDescription, GenerationError, BILLING_URL } from './services/errors';
+import { getProvider, getProviderId, setProviderId, listProviders, ProviderId } from './services/providers';
+import { createCreationId, saveCreation, updateCreation } from './services/historyStore';
+import { fileToBase64, triggerDownload, videoFileExtension, DEFAULT_OUTPUT_FORMAT, ASPECT_RATIO_OPTIONS, getPreviewAspectClass, ANIMATION_MODES } from './utils';
+import { createBatchQueue, generateBatchItem, BatchQueue, BatchItem } from './services/batchQueue';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { VariantPanel } from './components/VariantPanel';
+import { StoryboardPanel } from './components/StoryboardPanel';
+import { KeyframeReview } from './components/KeyframeReview';
+import { GifExportPanel } from './components/GifExportPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { ClipEditor, useEditedPlayback } from './components/ClipEditor';
+import { AudioTrackPanel, useAudioPreview } from './components/AudioTrackPanel';
+import { AudioTrack, DEFAULT_AUDIO_TRACK, isOriginalAudio } from './services/audioTrack';
+import { GlyphGuidePanel } from './components/GlyphGuidePanel';
+import { DEFAULT_GLYPH_GUIDE, GlyphGuide } from './services/glyphGuide';
+import { BrandKitPanel } from './components/BrandKitPanel';
+import { PromptTemplatePanel } from './components/PromptTemplatePanel';
+import { PresetCatalog } from './components/PresetCatalog';
+import { CachePanel } from './components/CachePanel';
+import { getCacheSettings, saveCacheSettings } from './services/generationCache';
+import { combinePrompts, listFavourites, listPresets, Preset } from './services/presets';
+import { adoptTemplateSnapshots } from './services/promptTemplates';
+import { decodeRecipeHash, Recipe, recipeLink, recipeMismatches, templateMismatches } from './services/projectFiles';
+import { detectScripts, graphemeLength, limitInputText, MAX_TEXT_GRAPHEMES, MAX_TEXT_LINES, normalizeInputText } from './services/textInput';
+import { BrandKit, listBrandKits } from './services/brandKits';
+import { ClipEdits, DEFAULT_CLIP_EDITS, isIdentityEdit } from './services/clipEdits';
+import { exportEditedVideo } from './services/exportFormats';
+import { generateVerifiedTextImage, checkLegibility } from './services/legibility';
+import { StoryboardShot } from './services/storyboard';
+import { Loader2, Paintbrush, Clapperboard, Play, ExternalLink, Type, Sparkles, Image as ImageIcon, X, Upload, Download, FileType, Wand2, Volume2, VolumeX, ChevronLeft, ChevronRight, ArrowLeft, Video as VideoIcon, Key, Info, ShieldCheck, PackageOpen, History, Layers, Ratio, Film, Square, RotateCw, AlertTriangle, Briefcase, FileCode2, Library, Link2, Check, Columns3, Music, Database } from 'lucide-react';
 
 interface Video {
   id: string;
@@ -157,30 +188,216 @@ const HeroCarousel: React.FC<{ forceMute: boolean }> = ({ forceMute }) => {
   );
 };
 
+interface PendingRun {
+  style: string;
+  format: OutputFormat;
+}
+
+const MAX_KEYFRAME_CANDIDATES = 4;
+const VIDEO_TIMEOUT_OPTIONS = [DEFAULT_VIDEO_TIMEOUT_MS, 300000, 600000];
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.IDLE);
   const [viewMode, setViewMode] = useState<'gallery' | 'create'>('gallery');
   const [showKeyDialog, setShowKeyDialog] = useState(false);
+  const [providerId, setProviderIdState] = useState<ProviderId>(getProviderId());
 
   const [inputText, setInputText] = useState<string>("");
   const [inputStyle, setInputStyle] = useState<string>("");
   const [typographyPrompt, setTypographyPrompt] = useState<string>("");
   const [referenceImage, setReferenceImage] = useState<string | null>(null);
+  const [glyphGuide, setGlyphGuide] = useState<GlyphGuide | null>(null);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  // Kit whose palette and art direction are added to every prompt of this run
+  const [activeKitId, setActiveKitId] = useState<string | null>(null);
+  const [showBrandKits, setShowBrandKits] = useState<boolean>(false);
+  const [showTemplates, setShowTemplates] = useState<boolean>(false);
+  const [showPresets, setShowPresets] = useState<boolean>(false);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+  const [animationMode, setAnimationMode] = useState<AnimationMode>('reveal');
+  const [targetText, setTargetText] = useState<string>("");
+  const [sound, setSound] = useState<SoundOptions>({ prompt: '', silent: false });
+  const [startImage, setStartImage] = useState<string | null>(null);
+  // Format of whatever is on screen, which may differ from the form after replaying history
+  const [resultFormat, setResultFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
 
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [videoSrc, setVideoSrc] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>("");
-  const [isGifGenerating, setIsGifGenerating] = useState<boolean>(false);
+  // Last failure, kept so the form can point at the input that caused it
+  const [errorInfo, setErrorInfo] = useState<ErrorDescription | null>(null);
+  const [showGifExport, setShowGifExport] = useState<boolean>(false);
+  const [showExport, setShowExport] = useState<boolean>(false);
+  // Trim/speed/loop edits for the clip on screen; every export renders through them
+  const [clipEdits, setClipEdits] = useState<ClipEdits>(DEFAULT_CLIP_EDITS);
+  const [sourceDuration, setSourceDuration] = useState<number>(0);
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+  // Soundtrack for the clip on screen; kept across clips so one music file can be tried on several
+  const [audioTrack, setAudioTrack] = useState<AudioTrack>(DEFAULT_AUDIO_TRACK);
   const [isSuggestingStyle, setIsSuggestingStyle] = useState<boolean>(false);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [showBatch, setShowBatch] = useState<boolean>(false);
+  const [showStoryboard, setShowStoryboard] = useState<boolean>(false);
+  const [showVariants, setShowVariants] = useState<boolean>(false);
+  const [showCache, setShowCache] = useState<boolean>(false);
+  const [useCached, setUseCached] = useState<boolean>(() => getCacheSettings().useCached);
+  const [videoFromCache, setVideoFromCache] = useState<boolean>(false);
+  // Each Suggest press for the same text is its own cache sample, so it still comes up with something new
+  const suggestionSampleRef = useRef<{ text: string; count: number }>({ text: '', count: 0 });
+  const [candidateCount, setCandidateCount] = useState<number>(3);
+  const [candidates, setCandidates] = useState<KeyframeCandidate[]>([]);
+  const [selectedCandidate, setSelectedCandidate] = useState<number>(0);
+  const [isRefining, setIsRefining] = useState<boolean>(false);
+  // Max image attempts per candidate while the rendered text doesn't read back correctly; 0 disables the check
+  const [spellCheckAttempts, setSpellCheckAttempts] = useState<number>(2);
+  // Style and format are fixed when a run starts so regenerating and animating stay consistent
+  const [pendingRun, setPendingRun] = useState<PendingRun | null>(null);
+  const [videoTimeoutMs, setVideoTimeoutMs] = useState<number>(DEFAULT_VIDEO_TIMEOUT_MS);
+  // Videos started in an earlier session that are being polled again in the background
+  const [resumingCount, setResumingCount] = useState<number>(0);
+  const [recoveredCount, setRecoveredCount] = useState<number>(0);
+  const [expiredCount, setExpiredCount] = useState<number>(0);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  // Shown after a recipe link prefills the form, listing anything that may not reproduce exactly here
+  const [recipeNotice, setRecipeNotice] = useState<{ recipe: Recipe; mismatches: string[]; canAdoptTemplates: boolean } | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const startImageInputRef = useRef<HTMLInputElement>(null);
+  const videoAbortRef = useRef<AbortController | null>(null);
+  const playerRef = useRef<HTMLVideoElement>(null);
+  // Lives for the whole session so the queue keeps running while the panel is closed
+  const batchQueueRef = useRef<BatchQueue | null>(null);
+  if (!batchQueueRef.current) batchQueueRef.current = createBatchQueue(generateBatchItem);
+  const variantQueueRef = useRef<BatchQueue | null>(null);
+  if (!variantQueueRef.current) variantQueueRef.current = createBatchQueue(generateBatchItem, 3);
 
   useEffect(() => {
-    if (state === AppState.GENERATING_IMAGE || state === AppState.GENERATING_VIDEO || state === AppState.PLAYING) {
+    if (state === AppState.GENERATING_IMAGE || state === AppState.REVIEWING_KEYFRAMES || state === AppState.GENERATING_VIDEO || state === AppState.PLAYING) {
       setViewMode('create');
     }
   }, [state]);
 
+  useEffect(() => {
+    setClipEdits(DEFAULT_CLIP_EDITS);
+    setSourceDuration(0);
+  }, [videoSrc]);
+
+  useEditedPlayback(playerRef, clipEdits, sourceDuration);
+  useAudioPreview(playerRef, audioTrack, clipEdits, sourceDuration);
+
+  const refreshBrandKits = useCallback(async () => {
+    try {
+      setBrandKits(await listBrandKits());
+    } catch (e) {
+      console.warn("Could not load brand kits", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshBrandKits();
+  }, [refreshBrandKits]);
+
+  const activeKit = brandKits.find(kit => kit.id === activeKitId);
+
+  const describeRecipe = (recipe: Recipe) => {
+    const provider = getProvider();
+    setRecipeNotice({
+      recipe,
+      mismatches: recipeMismatches(recipe, { provider: provider.id, models: provider.models }),
+      canAdoptTemplates: adoptableTemplates(recipe).length > 0
+    });
+  };
+
+  // Differing templates the recipe carries the body of; links only have hashes, project files have both
+  const adoptableTemplates = (recipe: Recipe) =>
+    templateMismatches(recipe).filter(id => recipe.promptTemplates![id]!.body !== undefined);
+
+  // Switches the prompt templates to the ones the recipe was made with, so its prompts are rebuilt exactly
+  const adoptRecipeTemplates = (recipe: Recipe) => {
+    adoptTemplateSnapshots(Object.fromEntries(adoptableTemplates(recipe).map(id => [id, recipe.promptTemplates![id]!])));
+    describeRecipe(recipe);
+  };
+
+  const applyRecipe = useCallback((recipe: Recipe) => {
+    setInputText(recipe.text);
+    setInputStyle(recipe.style);
+    setTypographyPrompt(recipe.typographyPrompt);
+    setOutputFormat(recipe.format);
+    setAnimationMode(recipe.animationMode);
+    setTargetText(recipe.targetText || "");
+    setSound(recipe.sound || { prompt: '', silent: false });
+    setViewMode('create');
+    describeRecipe(recipe);
+  }, []);
+
+  // Recipe links carry the form in the URL hash; it's cleared once applied so a reload doesn't overwrite edits
+  useEffect(() => {
+    const applyHash = () => {
+      const recipe = decodeRecipeHash(window.location.hash);
+      if (!recipe) return;
+      applyRecipe(recipe);
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    };
+    applyHash();
+    window.addEventListener('hashchange', applyHash);
+    return () => window.removeEventListener('hashchange', applyHash);
+  }, [applyRecipe]);
+
+  const copyRecipeLink = async () => {
+    const provider = getProvider();
+    try {
+      await navigator.clipboard.writeText(recipeLink({
+        text: inputText,
+        style: inputStyle,
+        typographyPrompt,
+        format: outputFormat,
+        animationMode,
+        targetText: animationMode === 'transition' ? targetText : undefined,
+        sound,
+        provider: provider.id,
+        models: { ...provider.models },
+        promptTemplates: templateSnapshotsFor(!!referenceImage, animationMode)
+      }));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      console.warn("Could not copy recipe link", e);
+    }
+  };
+
+  // Operations outlive the tab, so anything left over from a reload or crash is polled to completion
+  useEffect(() => {
+    const pending = listPendingOperations();
+    if (!pending.length) return;
+    const controller = new AbortController();
+    setResumingCount(pending.length);
+
+    pending.forEach(async (operation) => {
+      try {
+        const videoUrl = await resumeTextVideo(operation, { signal: controller.signal });
+        const videoBlob = await (await fetch(videoUrl)).blob();
+        URL.revokeObjectURL(videoUrl);
+        if (operation.creationId) {
+          await updateCreation(operation.creationId, { videoBlob, completedAt: Date.now() });
+        }
+        setRecoveredCount(n => n + 1);
+      } catch (e) {
+        if (e instanceof GenerationError && e.kind === 'expired') setExpiredCount(n => n + 1);
+        else if (!isAbortError(e)) console.warn(`Could not resume video for "${operation.text}"`, e);
+      } finally {
+        if (!controller.signal.aborted) setResumingCount(n => n - 1);
+      }
+    });
+
+    return () => controller.abort();
+  }, []);
+
+  const reportHistoryError = (message: string, e: unknown) => {
+    console.warn(message, e);
+    setHistoryError(message);
+  };
+
   const handleSelectKey = async () => {
     setShowKeyDialog(false);
     if (window.aistudio && window.aistudio.openSelectKey) {
@@ -192,8 +409,24 @@ const App: React.FC = () => {
     }
   };
 
+  const hasUsableKey = async () => {
+    if (!getProvider().requiresApiKey) return true;
+    return await window.aistudio?.hasSelectedApiKey();
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setProviderId(id);
+    setProviderIdState(id);
+  };
+
+  const ensureKey = async () => {
+    const keySelected = await hasUsableKey();
+    if (!keySelected) setShowKeyDialog(true);
+    return !!keySelected;
+  };
+
   const handleMainCta = async () => {
-    const isKeySelected = await window.aistudio?.hasSelectedApiKey();
+    const isKeySelected = await hasUsableKey();
     if (!isKeySelected) {
       setShowKeyDialog(true);
     } else {
@@ -202,117 +435,552 @@ const App: React.FC = () => {
     }
   };
 
+  const handleGenerationError = (err: any) => {
+    console.error(err);
+    if (isAbortError(err)) {
+      setStatusMessage("Video cancelled. Pick a keyframe to try again.");
+      setState(candidates.length ? AppState.REVIEWING_KEYFRAMES : AppState.IDLE);
+      return;
+    }
+    const info = describeError(err);
+    setErrorInfo(info);
+    if (info.action === 'select-key') {
+      setShowKeyDialog(true);
+      setState(AppState.IDLE);
+    } else if (info.action === 'edit-field') {
+      setCandidates([]);
+      setState(AppState.IDLE);
+    } else {
+      setStatusMessage(info.message);
+      setState(AppState.ERROR);
+    }
+  };
+
+  const reportRetry = (error: GenerationError, retry: number, delayMs: number) => {
+    setStatusMessage(`${describeError(error).title}. Retrying in ${Math.ceil(delayMs / 1000)}s (${retry})...`);
+  };
+
+  const suggestStyle = async () => {
+    setIsSuggestingStyle(true);
+    try {
+      const samples = suggestionSampleRef.current;
+      const sample = samples.text === inputText ? samples.count : 0;
+      suggestionSampleRef.current = { text: inputText, count: sample + 1 };
+      const suggestion = await generateStyleSuggestion(inputText, { sample });
+      setInputStyle(suggestion);
+      setErrorInfo(null);
+    } catch (err: any) {
+      console.error("Failed to generate style suggestion", err);
+      const info = describeError(err);
+      setErrorInfo(info);
+      if (info.action === 'select-key') setShowKeyDialog(true);
+    } finally {
+      setIsSuggestingStyle(false);
+    }
+  };
+
+  const fieldErrorClass = (field: string) =>
+    errorInfo?.field === field && state === AppState.IDLE ? 'ring-2 ring-red-500 dark:ring-red-400' : '';
+
+  // Fires several image calls in parallel; partial failures are fine as long as one candidate comes back
+  // `force` skips cached keyframes, e.g. when the user asks for new options
+  const generateCandidates = async (run: PendingRun, force = false) => {
+    setState(AppState.GENERATING_IMAGE);
+    setCandidates([]);
+    setImageSrc(null);
+    setStatusMessage(candidateCount > 1 ? `Designing ${candidateCount} options for "${inputText}"...` : `Designing "${inputText}"...`);
+
+    try {
+      const imageOptions = {
+        text: inputText, 
+        style: run.style,
+        typographyPrompt: typographyPrompt,
+        referenceImage: referenceImage || undefined,
+        format: run.format,
+        guide: glyphGuide || undefined,
+        brand: activeKit,
+        onRetry: reportRetry
+      };
+      let cached = 0;
+      const cacheRequest = (idx: number) => ({ sample: idx, force, onCacheHit: () => { cached++; } });
+      const results = await Promise.allSettled(Array.from({ length: candidateCount }, (_, idx) =>
+        spellCheckAttempts > 0
+          ? generateVerifiedTextImage({
+              ...imageOptions,
+              ...cacheRequest(idx),
+              maxAttempts: spellCheckAttempts,
+              onAttempt: (attempt, result) => {
+                if (result.score < 1 && attempt < spellCheckAttempts) {
+                  setStatusMessage(`Option ${idx + 1} read as "${result.read}", retrying (${attempt + 1}/${spellCheckAttempts})...`);
+                }
+              }
+            })
+          : generateTextImage({ ...imageOptions, ...cacheRequest(idx) }).then(image => ({ image, legibility: undefined }))
+      ));
+      const succeeded = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+      if (succeeded.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+      setCandidates(succeeded.map(({ image, legibility }) => ({ versions: [{ image, legibility }], activeVersion: 0 })));
+      setSelectedCandidate(0);
+      setState(AppState.REVIEWING_KEYFRAMES);
+      const cacheNote = cached ? ` ${cached === 1 ? 'One image' : `${cached} images`} came from the cache.` : '';
+      setStatusMessage((succeeded.length < candidateCount ? `${candidateCount - succeeded.length} option(s) failed. Pick a keyframe.` : "Pick a keyframe.") + cacheNote);
+    } catch (err: any) {
+      handleGenerationError(err);
+    }
+  };
+
   const startProcess = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputText.trim()) return;
+    if (!isFormReady) return;
 
     // Final key check before spending tokens
-    const keySelected = await window.aistudio?.hasSelectedApiKey();
+    const keySelected = await hasUsableKey();
     if (!keySelected) {
       setShowKeyDialog(true);
       return;
     }
 
-    setState(AppState.GENERATING_IMAGE);
-    setIsGifGenerating(false);
+    setShowGifExport(false);
+    setShowExport(false);
+    setErrorInfo(null);
     if (videoSrc && videoSrc.startsWith('blob:')) URL.revokeObjectURL(videoSrc);
     setVideoSrc(null);
-    setImageSrc(null);
-    
-    const styleToUse = inputStyle.trim() || getRandomStyle();
-    setStatusMessage(`Designing "${inputText}"...`);
 
+    const run: PendingRun = {
+      style: resolveStyle(inputStyle),
+      format: outputFormat
+    };
+    setPendingRun(run);
+    setResultFormat(run.format);
+    await generateCandidates(run);
+  };
+
+  const regenerateCandidates = async () => {
+    if (pendingRun) await generateCandidates(pendingRun, true);
+  };
+
+  const backToEdit = () => {
+    setCandidates([]);
+    setState(AppState.IDLE);
+  };
+
+  const updateSelectedCandidate = (update: (candidate: KeyframeCandidate) => KeyframeCandidate) => {
+    setCandidates(prev => prev.map((c, i) => i === selectedCandidate ? update(c) : c));
+  };
+
+  const selectKeyframeVersion = (version: number) => {
+    updateSelectedCandidate(c => ({ ...c, activeVersion: version }));
+  };
+
+  // Each edit starts from the version on screen and becomes the new active version
+  const refineKeyframe = async (instruction: string) => {
+    const candidate = candidates[selectedCandidate];
+    if (!candidate || !pendingRun) return;
+    setIsRefining(true);
     try {
-      const { data: b64Image, mimeType } = await generateTextImage({
-        text: inputText, 
-        style: styleToUse,
-        typographyPrompt: typographyPrompt,
-        referenceImage: referenceImage || undefined
+      const image = await editTextImage({
+        image: candidate.versions[candidate.activeVersion].image,
+        instruction,
+        text: inputText,
+        style: pendingRun.style,
+        format: pendingRun.format
       });
+      let legibility;
+      if (spellCheckAttempts > 0) {
+        legibility = await checkLegibility(image, inputText).catch(e => {
+          console.warn("Legibility check failed", e);
+          return undefined;
+        });
+      }
+      // Refining an earlier version drops the ones after it, so the versions stay one line of edits
+      updateSelectedCandidate(c => {
+        const versions = [...c.versions.slice(0, c.activeVersion + 1), { image, instruction, legibility }];
+        return { versions, activeVersion: versions.length - 1 };
+      });
+      setStatusMessage(`Applied "${instruction}".`);
+    } catch (err: any) {
+      console.error(err);
+      setStatusMessage(describeError(err).message);
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  // Drops the edit on screen, along with any made from it, and goes back to the version it started from
+  const undoRefinement = () => {
+    updateSelectedCandidate(c => {
+      if (c.activeVersion === 0) return c;
+      return { versions: c.versions.slice(0, c.activeVersion), activeVersion: c.activeVersion - 1 };
+    });
+  };
+
+  // Only an approved keyframe is sent to the (expensive) video model
+  const animateKeyframe = async (force = false) => {
+    const candidate = candidates[selectedCandidate];
+    if (!candidate || !pendingRun) return;
+    const { style: styleToUse, format } = pendingRun;
+    const { data: b64Image, mimeType } = candidate.versions[candidate.activeVersion].image;
+    // Each version is refined from the one before it, so the edits up to the approved one are its full recipe
+    const refinements = candidate.versions
+      .slice(1, candidate.activeVersion + 1)
+      .map(v => v.instruction || '');
+    const provider = getProvider();
+    const creationId = createCreationId();
+    const createdAt = Date.now();
 
-      setImageSrc(`data:${mimeType};base64,${b64Image}`);
+    try {
+      const animation: AnimationOptions = { mode: animationMode, sound };
+      if (animationMode === 'transition') {
+        setState(AppState.GENERATING_IMAGE);
+        setStatusMessage(`Designing "${targetText}"...`);
+        const target = await generateTextImage({
+          text: targetText,
+          style: styleToUse,
+          typographyPrompt: typographyPrompt,
+          referenceImage: referenceImage || undefined,
+          format,
+          guide: glyphGuide || undefined,
+          brand: activeKit
+        });
+        animation.targetText = targetText;
+        animation.targetImage = target;
+      } else if (animationMode === 'custom-start') {
+        animation.startImage = startImage || undefined;
+      }
+
+      const keyframeImage = `data:${mimeType};base64,${b64Image}`;
+      setImageSrc(keyframeImage);
+      // Save the keyframe straight away so a failed or abandoned video doesn't lose the paid image.
+      // The video is attached once this has landed, which a cache hit can otherwise beat.
+      const keyframeSaved = saveCreation({
+        id: creationId,
+        text: inputText,
+        style: styleToUse,
+        typographyPrompt,
+        referenceImage: referenceImage || undefined,
+        keyframeImage,
+        refinements: refinements.length ? refinements : undefined,
+        animationMode,
+        targetText: animation.targetText,
+        startImage: animation.startImage,
+        sound,
+        format,
+        provider: provider.id,
+        models: { ...provider.models },
+        promptTemplates: templateSnapshotsFor(!!referenceImage, animationMode),
+        createdAt
+      }).then(() => true, (e) => {
+        reportHistoryError("Could not save this creation to history.", e);
+        return false;
+      });
       setState(AppState.GENERATING_VIDEO);
       setStatusMessage("Animating...");
+      setVideoFromCache(false);
       
-      const videoUrl = await generateTextVideo(inputText, b64Image, mimeType, styleToUse);
+      const controller = new AbortController();
+      videoAbortRef.current = controller;
+      const videoUrl = await generateTextVideo(inputText, b64Image, mimeType, styleToUse, format, animation, {
+        signal: controller.signal,
+        timeoutMs: videoTimeoutMs,
+        creationId,
+        brand: activeKit,
+        force,
+        onCacheHit: () => setVideoFromCache(true),
+        onRetry: reportRetry
+      });
       setVideoSrc(videoUrl);
+      // Veo can't be told to skip audio through the Gemini API, so a silent request also drops it on export
+      if (sound.silent) setAudioTrack(track => track.mode === 'original' ? { ...track, mode: 'none' } : track);
       setState(AppState.PLAYING);
       setStatusMessage("Done.");
 
-    } catch (err: any) {
-      console.error(err);
-      const msg = err.message || "";
-      if (msg.includes("Requested entity was not found") || msg.includes("404")) {
-        setShowKeyDialog(true);
-        setState(AppState.IDLE);
-      } else {
-        setStatusMessage(msg || "Something went wrong creating your art.");
-        setState(AppState.ERROR);
+      if (await keyframeSaved) {
+        try {
+          const videoBlob = await (await fetch(videoUrl)).blob();
+          if (!await updateCreation(creationId, { videoBlob, completedAt: Date.now() })) throw new Error("The history record is missing.");
+        } catch (e) {
+          reportHistoryError("Could not save the video to history.", e);
+        }
       }
+
+    } catch (err: any) {
+      handleGenerationError(err);
+    } finally {
+      videoAbortRef.current = null;
     }
   };
 
+  // Stops polling; the provider may still finish the job server-side
+  const cancelVideo = () => {
+    videoAbortRef.current?.abort();
+  };
+
   const reset = () => {
     setState(AppState.IDLE);
+    setVideoFromCache(false);
+    setErrorInfo(null);
+    setCandidates([]);
     setVideoSrc(null);
     setImageSrc(null);
-    setIsGifGenerating(false);
+    setShowGifExport(false);
+    setShowExport(false);
+  };
+
+  const handleReplay = (record: CreationRecord) => {
+    if (!record.videoBlob) return;
+    if (videoSrc && videoSrc.startsWith('blob:')) URL.revokeObjectURL(videoSrc);
+    setVideoFromCache(false);
+    setImageSrc(record.keyframeImage || null);
+    setResultFormat(record.format || DEFAULT_OUTPUT_FORMAT);
+    setVideoSrc(URL.createObjectURL(record.videoBlob));
+    setShowHistory(false);
+    setState(AppState.PLAYING);
   };
 
-  const handleDownload = () => {
-    if (videoSrc) {
-      const a = document.createElement('a');
-      a.href = videoSrc;
-      a.download = `typemotion-${Date.now()}.mp4`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+  const handleRemix = (record: CreationRecord) => {
+    setInputText(record.text);
+    setInputStyle(record.style);
+    setTypographyPrompt(record.typographyPrompt);
+    setReferenceImage(record.referenceImage || null);
+    setOutputFormat(record.format || DEFAULT_OUTPUT_FORMAT);
+    setAnimationMode(record.animationMode || 'reveal');
+    setTargetText(record.targetText || "");
+    setStartImage(record.startImage || null);
+    setSound(record.sound || { prompt: '', silent: false });
+    setShowHistory(false);
+    reset();
+  };
+
+  // The winning variant becomes the main result, and its look carries over to the form for the next run
+  const promoteVariant = async (item: BatchItem) => {
+    if (!item.videoUrl) return;
+    try {
+      // The queue revokes its URLs when cleared, so the result gets its own copy
+      const videoBlob = await (await fetch(item.videoUrl)).blob();
+      if (videoSrc && videoSrc.startsWith('blob:')) URL.revokeObjectURL(videoSrc);
+      setInputStyle(item.style || '');
+      setTypographyPrompt(item.typographyPrompt || '');
+      setImageSrc(item.imageSrc || null);
+      setResultFormat(item.format || DEFAULT_OUTPUT_FORMAT);
+      setVideoSrc(URL.createObjectURL(videoBlob));
+      setShowVariants(false);
+      setState(AppState.PLAYING);
+    } catch (e) {
+      console.warn("Could not promote variant", e);
     }
   };
 
-  const handleDownloadGif = async () => {
+  // Prefills the form from a kit; anything the kit leaves empty is left as it was
+  const applyBrandKit = (kit: BrandKit | undefined) => {
+    setActiveKitId(kit?.id || null);
+    setShowBrandKits(false);
+    if (!kit) return;
+    if (kit.style) setInputStyle(kit.style);
+    if (kit.typographyPrompt) setTypographyPrompt(kit.typographyPrompt);
+    if (kit.referenceImages.length) setReferenceImage(kit.referenceImages[0]);
+    if (kit.font) setGlyphGuide(prev => ({ ...(prev || DEFAULT_GLYPH_GUIDE), font: kit.font! }));
+  };
+
+  const applyPresets = ({ style, typography }: { style?: Preset; typography?: Preset }, combine: boolean) => {
+    if (style) setInputStyle(prev => combine ? combinePrompts(prev, style.prompt) : style.prompt);
+    if (typography) setTypographyPrompt(prev => combine ? combinePrompts(prev, typography.prompt) : typography.prompt);
+    setShowPresets(false);
+  };
+
+  const handleStoryboardComplete = ({ shots, keyframes, sequence, style }: { shots: StoryboardShot[]; keyframes: string[]; sequence: Blob; style: string }) => {
+    const provider = getProvider();
+    const now = Date.now();
+    saveCreation({
+      id: createCreationId(),
+      text: shots.map(shot => shot.text).join(' → '),
+      style,
+      typographyPrompt: shots[0]?.typographyPrompt || '',
+      referenceImage: referenceImage || undefined,
+      keyframeImage: keyframes[keyframes.length - 1],
+      videoBlob: sequence,
+      format: outputFormat,
+      provider: provider.id,
+      models: { ...provider.models },
+      createdAt: now,
+      completedAt: now
+    }).catch(e => reportHistoryError("Could not save the storyboard to history.", e));
+  };
+
+  const handleDownload = async () => {
     if (!videoSrc) return;
-    setIsGifGenerating(true);
+    if ((!sourceDuration || isIdentityEdit(clipEdits, sourceDuration)) && isOriginalAudio(audioTrack)) {
+      const { type } = await (await fetch(videoSrc)).blob();
+      triggerDownload(videoSrc, `typemotion-${Date.now()}.${videoFileExtension(type)}`);
+      return;
+    }
+    // Edited clips and changed soundtracks are re-encoded in real time
+    setDownloadProgress(0);
     try {
-      const gifBlob = await createGifFromVideo(videoSrc);
-      const gifUrl = URL.createObjectURL(gifBlob);
-      const a = document.createElement('a');
-      a.href = gifUrl;
-      a.download = `typemotion-${Date.now()}.gif`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(gifUrl);
-    } catch (error) {
-      alert("Could not generate GIF from this video.");
+      const blob = await exportEditedVideo(videoSrc, { aspectRatio: resultFormat.aspectRatio, edits: clipEdits, audio: audioTrack, onProgress: setDownloadProgress });
+      const url = URL.createObjectURL(blob);
+      triggerDownload(url, `typemotion-${Date.now()}.${videoFileExtension(blob.type)}`);
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      console.error("Could not render edited clip", e);
+      setStatusMessage(e?.message || "Could not render the edited clip.");
     } finally {
-      setIsGifGenerating(false);
+      setDownloadProgress(null);
     }
   };
 
+  // Favourite typography presets get the quick-pick slots; without favourites the first few built-ins do
+  const typographyPresets = listPresets('typography');
+  const favouriteIds = listFavourites();
+  const favouriteTypography = typographyPresets.filter(p => favouriteIds.includes(p.id));
+  const quickTypography = (favouriteTypography.length ? favouriteTypography : typographyPresets.filter(p => !p.custom)).slice(0, 4);
+
+  const scripts = detectScripts(`${inputText}\n${animationMode === 'transition' ? targetText : ''}`);
+  const textScripts = [
+    scripts.rtl && 'right-to-left order',
+    scripts.cjk && 'CJK characters',
+    scripts.diacritics && 'accents'
+  ].filter((hint): hint is string => !!hint);
+
+  const isFormReady = !!inputText.trim()
+    && (animationMode !== 'transition' || !!targetText.trim())
+    && (animationMode !== 'custom-start' || !!startImage);
+
   const renderAppContent = () => {
+    if (showHistory && (state === AppState.IDLE || state === AppState.PLAYING || state === AppState.ERROR)) {
+      return <HistoryPanel onClose={() => setShowHistory(false)} onReplay={handleReplay} onRemix={handleRemix} />;
+    }
+
+    if (showCache && state === AppState.IDLE) {
+      return <CachePanel onClose={() => setShowCache(false)} />;
+    }
+
+    if (showBrandKits && state === AppState.IDLE) {
+      return (
+        <BrandKitPanel
+          kits={brandKits}
+          activeKitId={activeKitId}
+          formDefaults={{ style: inputStyle, typographyPrompt, referenceImage, font: glyphGuide?.font.dataUrl ? glyphGuide.font : undefined }}
+          onKitsChanged={refreshBrandKits}
+          onUse={applyBrandKit}
+          onClose={() => setShowBrandKits(false)}
+        />
+      );
+    }
+
+    if (showPresets && state === AppState.IDLE) {
+      return (
+        <PresetCatalog
+          current={{ style: inputStyle, typography: typographyPrompt }}
+          thumbnail={imageSrc}
+          onApply={applyPresets}
+          onClose={() => setShowPresets(false)}
+        />
+      );
+    }
+
+    if (showTemplates && state === AppState.IDLE) {
+      return (
+        <PromptTemplatePanel
+          sample={{ text: inputText, style: inputStyle, typographyPrompt, format: outputFormat, animation: { mode: animationMode, targetText, sound }, guide: glyphGuide || undefined, brand: activeKit }}
+          onClose={() => setShowTemplates(false)}
+        />
+      );
+    }
+
+    if (showStoryboard && state === AppState.IDLE) {
+      return (
+        <StoryboardPanel
+          defaults={{ style: inputStyle, typographyPrompt, referenceImage, format: outputFormat }}
+          onClose={() => setShowStoryboard(false)}
+          ensureKey={ensureKey}
+          onComplete={handleStoryboardComplete}
+        />
+      );
+    }
+
+    if (showVariants && state === AppState.IDLE) {
+      return (
+        <VariantPanel
+          queue={variantQueueRef.current!}
+          defaults={{ text: inputText, style: inputStyle, typographyPrompt, referenceImage, format: outputFormat, animation: { mode: animationMode, startImage: startImage || undefined } }}
+          onClose={() => setShowVariants(false)}
+          ensureKey={ensureKey}
+          onPromote={promoteVariant}
+        />
+      );
+    }
+
+    if (showBatch && state === AppState.IDLE) {
+      return (
+        <BatchPanel
+          queue={batchQueueRef.current!}
+          defaults={{ style: inputStyle, typographyPrompt, referenceImage, format: outputFormat, animation: { mode: animationMode, startImage: startImage || undefined } }}
+          onClose={() => setShowBatch(false)}
+          ensureKey={ensureKey}
+        />
+      );
+    }
+
     if (state === AppState.ERROR) {
        return (
         <div className="flex flex-col items-center justify-center space-y-6 h-full p-8 text-center animate-in zoom-in-95">
           <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 px-6 py-4 rounded-xl border border-red-100 dark:border-red-900/30 max-w-md shadow-sm">
-            <p className="font-medium">Generation Failed</p>
+            <p className="font-medium">{errorInfo?.title || 'Generation Failed'}</p>
             <p className="text-sm mt-1 text-red-500 dark:text-red-400">{statusMessage}</p>
           </div>
-          <button onClick={reset} className="px-8 py-3 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-medium rounded-full hover:bg-stone-800 dark:hover:bg-white transition-colors shadow-lg">
-            Try Again
-          </button>
+          <div className="flex items-center gap-3">
+            {errorInfo?.action === 'open-billing' && (
+              <a href={BILLING_URL} target="_blank" rel="noopener noreferrer" className="px-6 py-3 border border-stone-200 dark:border-zinc-700 text-stone-900 dark:text-stone-200 font-medium rounded-full hover:bg-stone-50 dark:hover:bg-zinc-800 transition-colors flex items-center gap-2">
+                Check billing <ExternalLink size={14} />
+              </a>
+            )}
+            {candidates.length > 0 && (
+              <button onClick={() => setState(AppState.REVIEWING_KEYFRAMES)} className="px-6 py-3 border border-stone-200 dark:border-zinc-700 text-stone-900 dark:text-stone-200 font-medium rounded-full hover:bg-stone-50 dark:hover:bg-zinc-800 transition-colors">
+                Back to Keyframes
+              </button>
+            )}
+            <button onClick={reset} className="px-8 py-3 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-medium rounded-full hover:bg-stone-800 dark:hover:bg-white transition-colors shadow-lg">
+              {errorInfo?.action === 'retry' ? 'Try Again' : 'Start Over'}
+            </button>
+          </div>
         </div>
       );
     }
 
+    if (state === AppState.REVIEWING_KEYFRAMES) {
+      return (
+        <KeyframeReview
+          candidates={candidates}
+          selected={selectedCandidate}
+          aspectRatio={resultFormat.aspectRatio}
+          statusMessage={statusMessage}
+          isRefining={isRefining}
+          onSelect={setSelectedCandidate}
+          onSelectVersion={selectKeyframeVersion}
+          onRefine={refineKeyframe}
+          onUndo={undoRefinement}
+          onBack={backToEdit}
+          onRegenerate={regenerateCandidates}
+          onAnimate={() => animateKeyframe()}
+        />
+      );
+    }
+
     if (state === AppState.GENERATING_IMAGE || state === AppState.GENERATING_VIDEO || state === AppState.PLAYING) {
       return (
         <div className="w-full h-full flex flex-col items-center justify-center p-4 md:p-8 bg-stone-50 dark:bg-zinc-950">
           <div className={`flex items-center gap-3 px-5 py-2 rounded-full mb-6 transition-all duration-500 ${state === AppState.PLAYING ? 'opacity-0 h-0 mb-0 overflow-hidden' : 'bg-white dark:bg-zinc-900 shadow-sm border border-stone-100 dark:border-zinc-800'}`}>
              <Loader2 size={16} className="animate-spin text-stone-400 dark:text-stone-500" />
              <span className="text-sm font-medium text-stone-600 dark:text-stone-300 uppercase tracking-wide">{statusMessage}</span>
+             {state === AppState.GENERATING_VIDEO && (
+               <button type="button" onClick={cancelVideo} className="flex items-center gap-1 ml-2 px-2.5 py-1 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-red-600 dark:hover:text-red-400 bg-stone-100 dark:bg-zinc-800 rounded-full transition-colors" title="Stop waiting for this video">
+                 <Square size={10} className="fill-current" /> Cancel
+               </button>
+             )}
           </div>
-          <div className="relative w-full max-w-6xl aspect-video bg-white dark:bg-zinc-900 rounded-2xl overflow-hidden shadow-2xl ring-1 ring-stone-900/5 dark:ring-white/10 group">
+          <div className={`relative ${resultFormat.aspectRatio === '16:9' ? 'w-full max-w-6xl' : 'h-[60vh] max-w-full'} ${getPreviewAspectClass(resultFormat.aspectRatio)} bg-white dark:bg-zinc-900 rounded-2xl overflow-hidden shadow-2xl ring-1 ring-stone-900/5 dark:ring-white/10 group`}>
             {(state === AppState.GENERATING_IMAGE) && !imageSrc && (
               <div className="absolute inset-0 flex flex-col items-center justify-center bg-stone-50 dark:bg-zinc-900 space-y-6">
                  <div className="relative w-16 h-16">
@@ -330,8 +998,18 @@ const App: React.FC = () => {
                   </div>
                </div>
              )}
-            {videoSrc && <video src={videoSrc} autoPlay loop playsInline controls className="w-full h-full object-cover animate-in fade-in duration-1000" />}
+            {videoSrc && <video ref={playerRef} src={videoSrc} autoPlay loop playsInline controls={isIdentityEdit(clipEdits, sourceDuration)} onLoadedMetadata={(e) => setSourceDuration(e.currentTarget.duration || 0)} className="w-full h-full object-cover animate-in fade-in duration-1000" />}
           </div>
+          {state === AppState.PLAYING && sourceDuration > 0 && (
+            <div className="w-full max-w-6xl mt-4">
+              <ClipEditor edits={clipEdits} sourceDuration={sourceDuration} onChange={setClipEdits} />
+            </div>
+          )}
+          {state === AppState.PLAYING && sourceDuration > 0 && (
+            <div className="w-full max-w-6xl mt-2">
+              <AudioTrackPanel track={audioTrack} edits={clipEdits} onChange={setAudioTrack} />
+            </div>
+          )}
           {state === AppState.PLAYING && (
             <div className="w-full max-w-6xl mt-6 flex flex-col md:flex-row items-center justify-between gap-4 animate-in slide-in-from-bottom-4 fade-in duration-700">
               <button onClick={reset} className="flex items-center gap-2 px-6 py-3 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-sm uppercase tracking-wide group">
@@ -339,15 +1017,38 @@ const App: React.FC = () => {
                 Create Another
               </button>
               <div className="flex items-center gap-3 w-full md:w-auto justify-center md:justify-end">
-               <button onClick={handleDownloadGif} disabled={isGifGenerating} className="px-5 py-3 bg-white dark:bg-zinc-900 text-stone-900 dark:text-stone-200 border border-stone-200 dark:border-zinc-700 font-bold rounded-xl hover:bg-stone-50 dark:hover:bg-zinc-800 transition-colors flex items-center gap-2 disabled:opacity-50 text-sm">
-                {isGifGenerating ? <Loader2 size={16} className="animate-spin" /> : <FileType size={16} />} GIF
+               {videoFromCache && (
+                 <button onClick={() => animateKeyframe(true)} className="px-4 py-3 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-colors flex items-center gap-2 text-sm font-bold" title="This video was reused from an identical earlier request. Generate a new one instead.">
+                  <Database size={16} /> Cached · Regenerate
+                 </button>
+               )}
+               <button onClick={() => setShowHistory(true)} className="px-4 py-3 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-colors flex items-center gap-2 text-sm font-bold" title="History">
+                <History size={16} />
+              </button>
+               <button onClick={() => { setShowExport(!showExport); setShowGifExport(false); }} aria-expanded={showExport} className="px-4 py-3 bg-white dark:bg-zinc-900 text-stone-900 dark:text-stone-200 border border-stone-200 dark:border-zinc-700 font-bold rounded-xl hover:bg-stone-50 dark:hover:bg-zinc-800 transition-colors flex items-center gap-2 text-sm" title="WebM, WebP, APNG, PNG frames and poster">
+                <PackageOpen size={16} /> Export
               </button>
-               <button onClick={handleDownload} className="px-6 py-3 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors flex items-center gap-2 shadow-xl shadow-stone-900/10 dark:shadow-white/5 active:scale-[0.98] text-sm">
-                <Download size={16} /> Download MP4
+               <button onClick={() => { setShowGifExport(!showGifExport); setShowExport(false); }} aria-expanded={showGifExport} className="px-5 py-3 bg-white dark:bg-zinc-900 text-stone-900 dark:text-stone-200 border border-stone-200 dark:border-zinc-700 font-bold rounded-xl hover:bg-stone-50 dark:hover:bg-zinc-800 transition-colors flex items-center gap-2 disabled:opacity-50 text-sm">
+                <FileType size={16} /> GIF
+              </button>
+               <button onClick={handleDownload} disabled={downloadProgress !== null} className="px-6 py-3 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors flex items-center gap-2 shadow-xl shadow-stone-900/10 dark:shadow-white/5 active:scale-[0.98] text-sm">
+                {downloadProgress !== null
+                  ? <><Loader2 size={16} className="animate-spin" /> {Math.round(downloadProgress * 100)}%</>
+                  : <><Download size={16} /> Download</>}
               </button>
               </div>
             </div>
           )}
+          {state === AppState.PLAYING && showGifExport && videoSrc && (
+            <div className="w-full max-w-6xl mt-4 flex justify-center md:justify-end">
+              <GifExportPanel videoSrc={videoSrc} aspectRatio={resultFormat.aspectRatio} edits={clipEdits} logo={activeKit?.logo} onClose={() => setShowGifExport(false)} />
+            </div>
+          )}
+          {state === AppState.PLAYING && showExport && videoSrc && (
+            <div className="w-full max-w-6xl mt-4 flex justify-center md:justify-end">
+              <ExportDialog videoSrc={videoSrc} aspectRatio={resultFormat.aspectRatio} edits={clipEdits} audio={audioTrack} logo={activeKit?.logo} onClose={() => setShowExport(false)} />
+            </div>
+          )}
         </div>
       );
     }
@@ -356,32 +1057,208 @@ const App: React.FC = () => {
       <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-white dark:bg-zinc-950">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-bold text-stone-900 dark:text-white">Create New</h2>
+          <div className="flex items-center gap-2 mr-12">
+            <button type="button" onClick={() => setShowHistory(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800 transition-colors">
+              <History size={12} /> History
+            </button>
+            <button type="button" onClick={() => setShowBatch(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800 transition-colors">
+              <Layers size={12} /> Batch
+            </button>
+            <button type="button" onClick={() => setShowVariants(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800 transition-colors" title="Generate this text in several looks and compare them side by side">
+              <Columns3 size={12} /> Compare
+            </button>
+            <button type="button" onClick={() => setShowStoryboard(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800 transition-colors">
+              <Clapperboard size={12} /> Storyboard
+            </button>
+            <button type="button" onClick={() => setShowBrandKits(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800 transition-colors">
+              <Briefcase size={12} /> Brands
+            </button>
+            <button type="button" onClick={() => setShowTemplates(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800 transition-colors" title="Edit prompt templates">
+              <FileCode2 size={12} /> Prompts
+            </button>
+            <button type="button" onClick={() => setShowCache(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800 transition-colors" title="Results kept for identical requests">
+              <Database size={12} /> Cache
+            </button>
+            <button type="button" onClick={copyRecipeLink} disabled={!inputText.trim()} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800 transition-colors disabled:opacity-40" title="Copy a link that prefills this form (media isn't included)">
+              {linkCopied ? <><Check size={12} /> Copied</> : <><Link2 size={12} /> Share</>}
+            </button>
+            <div className="flex items-center gap-1 p-1 bg-stone-100 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800" role="radiogroup" aria-label="Generation provider">
+              {listProviders().map((p) => (
+                <button key={p.id} type="button" role="radio" aria-checked={providerId === p.id} onClick={() => handleProviderChange(p.id)} className={`px-2.5 py-1 text-[10px] font-bold uppercase tracking-wider rounded-md transition-colors ${providerId === p.id ? 'bg-white dark:bg-zinc-700 text-stone-900 dark:text-white shadow-sm' : 'text-stone-400 dark:text-zinc-500 hover:text-stone-700 dark:hover:text-stone-300'}`}>{p.label}</button>
+              ))}
+            </div>
+          </div>
         </div>
 
+        {(resumingCount > 0 || recoveredCount > 0 || expiredCount > 0) && (
+          <div className="flex items-center gap-2 mb-6 px-4 py-2.5 text-xs text-stone-600 dark:text-stone-300 bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl">
+            {resumingCount > 0 ? <Loader2 size={14} className="animate-spin" /> : <RotateCw size={14} />}
+            <span className="flex-1">
+              {resumingCount > 0 && `Finishing ${resumingCount} video(s) from your last session. `}
+              {recoveredCount > 0 && `${recoveredCount} recovered video(s) saved to history. `}
+              {expiredCount > 0 && `${expiredCount} video(s) from your last session can no longer be retrieved; generate them again.`}
+            </span>
+            {recoveredCount > 0 && (
+              <button type="button" onClick={() => setShowHistory(true)} className="font-bold underline hover:text-stone-900 dark:hover:text-white">View</button>
+            )}
+          </div>
+        )}
+
+        {historyError && (
+          <div className="flex items-start gap-2 mb-6 px-4 py-2.5 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 rounded-xl" role="alert">
+            <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+            <span className="flex-1">{historyError} Download the result to keep it.</span>
+            <button type="button" onClick={() => setHistoryError(null)} aria-label="Dismiss"><X size={14} /></button>
+          </div>
+        )}
+
+        {recipeNotice && (
+          <div className="flex items-start gap-2 mb-6 px-4 py-2.5 text-xs text-stone-600 dark:text-stone-300 bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl">
+            <Link2 size={14} className="flex-shrink-0 mt-0.5" />
+            <span className="flex-1">
+              Loaded the recipe for "{recipeNotice.recipe.text}".
+              {recipeNotice.mismatches.length > 0 && <> Results may differ: {recipeNotice.mismatches.join('; ')}.</>}
+              {referenceImage && " Your current reference image is still attached."}
+            </span>
+            {recipeNotice.canAdoptTemplates && (
+              <button type="button" onClick={() => adoptRecipeTemplates(recipeNotice.recipe)} className="font-bold underline hover:text-stone-900 dark:hover:text-white" title="Activate the recipe's prompt templates; yours stay available as saved versions">Use its prompts</button>
+            )}
+            <button type="button" onClick={() => setRecipeNotice(null)} aria-label="Dismiss"><X size={14} /></button>
+          </div>
+        )}
+
+        {errorInfo && state === AppState.IDLE && (
+          <div className="flex items-start gap-2 mb-6 px-4 py-2.5 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 rounded-xl" role="alert">
+            <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+            <span className="flex-1"><span className="font-bold">{errorInfo.title}.</span> {errorInfo.message}</span>
+            {errorInfo.action === 'open-billing' && (
+              <a href={BILLING_URL} target="_blank" rel="noopener noreferrer" className="font-bold underline">Billing</a>
+            )}
+            <button type="button" onClick={() => setErrorInfo(null)} aria-label="Dismiss error"><X size={14} /></button>
+          </div>
+        )}
+
         <form onSubmit={startProcess} className="space-y-6">
+          {brandKits.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3">
+              <label htmlFor="brand-kit" className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                <Briefcase size={14} /> Brand kit
+              </label>
+              <select id="brand-kit" value={activeKitId || ''} onChange={(e) => applyBrandKit(brandKits.find(kit => kit.id === e.target.value))} className="bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-stone-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100">
+                <option value="">None</option>
+                {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+              </select>
+              {activeKit?.palette.length ? (
+                <div className="flex gap-1" title="Brand palette, added to every prompt">
+                  {activeKit.palette.map((colour, i) => <span key={i} className="h-4 w-4 rounded-sm border border-black/10" style={{ backgroundColor: colour }} />)}
+                </div>
+              ) : null}
+              {activeKit && activeKit.referenceImages.length > 1 && (
+                <div className="flex gap-1.5" role="radiogroup" aria-label="Brand reference image">
+                  {activeKit.referenceImages.map((src, i) => (
+                    <button key={i} type="button" role="radio" aria-checked={referenceImage === src} onClick={() => setReferenceImage(src)} className={`h-8 w-8 rounded overflow-hidden border-2 ${referenceImage === src ? 'border-stone-900 dark:border-stone-100' : 'border-transparent opacity-60 hover:opacity-100'}`}>
+                      <img src={src} alt={`Brand reference ${i + 1}`} className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-5">
               <div className="space-y-2">
-                <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
-                  <Type size={14} /> Content
-                </label>
-                <input type="text" value={inputText} onChange={(e) => setInputText(e.target.value)} placeholder="Enter text..." maxLength={40} className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl px-4 py-3 text-lg font-medium focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white" required />
+                <div className="flex justify-between items-center">
+                  <label htmlFor="content-text" className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                    <Type size={14} /> Content
+                  </label>
+                  <span className="text-[10px] text-stone-400 dark:text-zinc-500 tabular-nums" title={`Up to ${MAX_TEXT_LINES} lines`}>{graphemeLength(inputText.replace(/\n/g, ''))}/{MAX_TEXT_GRAPHEMES}</span>
+                </div>
+                <textarea id="content-text" value={inputText} onChange={(e) => setInputText(limitInputText(e.target.value))} onBlur={() => setInputText(normalizeInputText(inputText))} placeholder="Enter text... (Enter for a new line)" rows={Math.min(MAX_TEXT_LINES, Math.max(1, inputText.split('\n').length))} dir="auto" className={`${fieldErrorClass('text')} w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl px-4 py-3 text-lg font-medium leading-snug resize-none focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white`} required />
+                {textScripts.length > 0 && (
+                  <p className="text-[10px] text-stone-400 dark:text-zinc-500">Prompts will ask the model to keep the {textScripts.join(', ')} exactly as typed.</p>
+                )}
               </div>
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
                   <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
                     <Wand2 size={14} /> Art Direction
                   </label>
-                  <button type="button" onClick={async () => {
-                    setIsSuggestingStyle(true);
-                    const suggestion = await generateStyleSuggestion(inputText);
-                    if (suggestion) setInputStyle(suggestion);
-                    setIsSuggestingStyle(false);
-                  }} disabled={!inputText.trim() || isSuggestingStyle} className="text-xs font-medium text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-200 flex items-center gap-1 transition-colors disabled:opacity-50">
-                      {isSuggestingStyle ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} {isSuggestingStyle ? 'Thinking...' : 'Suggest'}
-                  </button>
+                  <div className="flex items-center gap-3">
+                    <button type="button" onClick={() => setShowPresets(true)} className="text-xs font-medium text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-200 flex items-center gap-1 transition-colors">
+                        <Library size={12} /> Presets
+                    </button>
+                    <button type="button" onClick={suggestStyle} disabled={!inputText.trim() || isSuggestingStyle} className="text-xs font-medium text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-200 flex items-center gap-1 transition-colors disabled:opacity-50">
+                        {isSuggestingStyle ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} {isSuggestingStyle ? 'Thinking...' : 'Suggest'}
+                    </button>
+                  </div>
                 </div>
-                <textarea value={inputStyle} onChange={(e) => setInputStyle(e.target.value)} placeholder="e.g. 'Made of clouds in a blue sky'..." className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white resize-none h-24" />
+                <textarea value={inputStyle} onChange={(e) => setInputStyle(e.target.value)} placeholder="e.g. 'Made of clouds in a blue sky'..." className={`${fieldErrorClass('style')} w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white resize-none h-24`} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                  <Ratio size={14} /> Format
+                </label>
+                <div className="flex gap-2">
+                  <div className="flex-1 flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-xl border border-stone-200 dark:border-zinc-800">
+                    {ASPECT_RATIO_OPTIONS.map((opt) => (
+                      <button key={opt.id} type="button" onClick={() => setOutputFormat({ ...outputFormat, aspectRatio: opt.id })} className={`flex-1 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-lg transition-colors ${outputFormat.aspectRatio === opt.id ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`}>
+                        {opt.label} <span className="opacity-60">{opt.id}</span>
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-xl border border-stone-200 dark:border-zinc-800">
+                    {(['720p', '1080p'] as const).map((res) => (
+                      <button key={res} type="button" onClick={() => setOutputFormat({ ...outputFormat, resolution: res })} className={`px-2.5 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-lg transition-colors ${outputFormat.resolution === res ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`}>{res}</button>
+                    ))}
+                  </div>
+                </div>
+                {outputFormat.aspectRatio === '1:1' && (
+                  <p className="text-[10px] text-stone-400 dark:text-zinc-500">Square clips are rendered at 16:9 and center-cropped in the preview and GIF export.</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                  <Film size={14} /> Motion
+                </label>
+                <div className="flex flex-wrap gap-1.5">
+                  {ANIMATION_MODES.map((opt) => (
+                    <button key={opt.id} type="button" onClick={() => setAnimationMode(opt.id)} title={opt.description} className={`px-2.5 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-lg border transition-colors ${animationMode === opt.id ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 border-transparent' : 'bg-stone-50 dark:bg-zinc-900 border-stone-200 dark:border-zinc-800 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`}>{opt.label}</button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-stone-400 dark:text-zinc-500">{ANIMATION_MODES.find(m => m.id === animationMode)?.description}</p>
+                {animationMode === 'transition' && (
+                  <input type="text" value={targetText} onChange={(e) => setTargetText(limitInputText(e.target.value, MAX_TEXT_GRAPHEMES, 1))} placeholder="Transition to..." dir="auto" className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl px-4 py-2 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white" />
+                )}
+                {animationMode === 'custom-start' && (
+                  <div className="flex items-center gap-3">
+                    <button type="button" onClick={() => startImageInputRef.current?.click()} className="flex-1 border border-dashed border-stone-300 dark:border-zinc-700 rounded-xl h-10 flex items-center justify-center gap-2 text-stone-500 dark:text-zinc-400 hover:bg-stone-50 dark:hover:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 cursor-pointer text-xs transition-all" aria-label="Upload start frame">
+                      <Upload size={14} /> Start frame
+                    </button>
+                    <input type="file" ref={startImageInputRef} onChange={async (e) => {
+                      const file = e.target.files?.[0];
+                      if (file) setStartImage(await fileToBase64(file));
+                    }} accept="image/*" className="sr-only" />
+                    {startImage && (
+                      <div className="h-10 w-10 relative rounded overflow-hidden border border-stone-200 dark:border-zinc-700 group">
+                        <img src={startImage} alt="Start frame thumbnail" className="w-full h-full object-cover" />
+                        <button type="button" onClick={() => setStartImage(null)} className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity" aria-label="Remove start frame">
+                          <X size={12} className="text-white" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label htmlFor="sound-design" className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                    <Music size={14} /> Sound
+                  </label>
+                  <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 cursor-pointer">
+                    <input type="checkbox" checked={sound.silent} onChange={(e) => setSound(prev => ({ ...prev, silent: e.target.checked }))} className="accent-stone-900 dark:accent-stone-100" /> Silent
+                  </label>
+                </div>
+                <input id="sound-design" type="text" value={sound.prompt} onChange={(e) => setSound(prev => ({ ...prev, prompt: e.target.value }))} disabled={sound.silent} placeholder="Sound design, e.g. low rumble, then a bright chime" className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white disabled:opacity-50" />
               </div>
             </div>
             <div className="space-y-5">
@@ -389,13 +1266,15 @@ const App: React.FC = () => {
                 <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
                   <Paintbrush size={14} /> Typography
                 </label>
-                <textarea value={typographyPrompt} onChange={(e) => setTypographyPrompt(e.target.value)} placeholder="Font style..." className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white resize-none h-24" />
+                <textarea value={typographyPrompt} onChange={(e) => setTypographyPrompt(e.target.value)} placeholder="Font style..." className={`${fieldErrorClass('typographyPrompt')} w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white resize-none h-24`} />
                 <div className="flex flex-wrap gap-1.5">
-                  {TYPOGRAPHY_SUGGESTIONS.slice(0, 4).map((opt) => (
-                    <button key={opt.id} type="button" onClick={() => setTypographyPrompt(opt.prompt)} className="px-2 py-1 bg-stone-100 dark:bg-zinc-800 hover:bg-stone-200 dark:hover:bg-zinc-700 text-stone-600 dark:text-stone-300 text-[10px] font-medium rounded-md border border-stone-200 dark:border-zinc-700">{opt.label}</button>
+                  {quickTypography.map((opt) => (
+                    <button key={opt.id} type="button" onClick={() => setTypographyPrompt(opt.prompt)} title={opt.prompt} className="px-2 py-1 bg-stone-100 dark:bg-zinc-800 hover:bg-stone-200 dark:hover:bg-zinc-700 text-stone-600 dark:text-stone-300 text-[10px] font-medium rounded-md border border-stone-200 dark:border-zinc-700">{opt.label}</button>
                   ))}
+                  <button type="button" onClick={() => setShowPresets(true)} className="px-2 py-1 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white text-[10px] font-medium">More...</button>
                 </div>
               </div>
+              <GlyphGuidePanel text={inputText} aspectRatio={outputFormat.aspectRatio} guide={glyphGuide} onChange={setGlyphGuide} />
               <div className="space-y-2">
                 <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
                   <ImageIcon size={14} /> Ref Image
@@ -420,7 +1299,7 @@ const App: React.FC = () => {
                     className="sr-only" 
                   />
                    {referenceImage && (
-                    <div className="h-10 w-10 relative rounded overflow-hidden border border-stone-200 dark:border-zinc-700 group">
+                    <div className={`${fieldErrorClass('referenceImage')} h-10 w-10 relative rounded overflow-hidden border border-stone-200 dark:border-zinc-700 group`}>
                        <img src={referenceImage} alt="Reference thumbnail" className="w-full h-full object-cover" />
                        <button 
                         type="button" 
@@ -441,8 +1320,35 @@ const App: React.FC = () => {
               </div>
             </div>
           </div>
-          <div className="pt-4 border-t border-stone-100 dark:border-zinc-800">
-            <button type="submit" disabled={!inputText.trim()} className="w-full py-4 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-all disabled:opacity-50 shadow-xl shadow-stone-900/10 dark:shadow-white/5 active:scale-[0.99] flex items-center justify-center gap-2">
+          <div className="pt-4 border-t border-stone-100 dark:border-zinc-800 space-y-3">
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <label className="flex items-center gap-1.5 mr-2 text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider cursor-pointer" title="Reuse the stored result when the model, prompt, images and settings are identical. Off always regenerates.">
+                <input type="checkbox" checked={useCached} onChange={(e) => {
+                  setUseCached(e.target.checked);
+                  saveCacheSettings({ ...getCacheSettings(), useCached: e.target.checked });
+                }} className="accent-stone-900 dark:accent-stone-100" />
+                Use cached
+              </label>
+              <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider" title="Reads the rendered text back and regenerates on a misspelling">Spell check</span>
+              <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+                {[0, 1, 2, 3].map(n => (
+                  <button key={n} type="button" onClick={() => setSpellCheckAttempts(n)} title={n === 0 ? 'Off' : `Up to ${n} attempt(s)`} className={`px-2 py-1 text-[10px] font-bold rounded-md transition-colors ${spellCheckAttempts === n ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`}>{n === 0 ? 'Off' : `${n}×`}</button>
+                ))}
+              </div>
+              <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider ml-2" title="How long to wait for a video before giving up; it keeps running and is picked up next session">Video timeout</span>
+              <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+                {VIDEO_TIMEOUT_OPTIONS.map(ms => (
+                  <button key={ms} type="button" onClick={() => setVideoTimeoutMs(ms)} className={`px-2 py-1 text-[10px] font-bold rounded-md transition-colors ${videoTimeoutMs === ms ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`}>{ms / 60000}m</button>
+                ))}
+              </div>
+              <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider ml-2">Keyframe options</span>
+              <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+                {Array.from({ length: MAX_KEYFRAME_CANDIDATES }, (_, i) => i + 1).map(n => (
+                  <button key={n} type="button" onClick={() => setCandidateCount(n)} className={`w-7 py-1 text-[10px] font-bold rounded-md transition-colors ${candidateCount === n ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`}>{n}</button>
+                ))}
+              </div>
+            </div>
+            <button type="submit" disabled={!isFormReady} className="w-full py-4 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-all disabled:opacity-50 shadow-xl shadow-stone-900/10 dark:shadow-white/5 active:scale-[0.99] flex items-center justify-center gap-2">
               <Play size={18} className="fill-current" /> GENERATE
             </button>
           </div>
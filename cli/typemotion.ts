@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { AnimationMode, AnimationOptions, AspectRatio, VideoResolution } from '../types';
+import { ANIMATION_MODES, ASPECT_RATIO_OPTIONS, slugify, videoFileExtension } from '../utils';
+import { describeError, GenerationError } from '../services/errors';
+import { generateKeyframe, generateVideo, imagePromptVariables, imageTemplateId, resolveStyle, suggestStyle, templateSnapshotsFor, videoPromptVariables, videoTemplateId } from '../services/generationCore';
+import { geminiProvider } from '../services/providers/geminiProvider';
+import { headlessProvider } from '../services/providers/headlessProvider';
+import { GenerationProvider, InlineImage, ProviderId } from '../services/providers/types';
+import { renderPrompt } from '../services/promptTemplates';
+import { projectSidecar, Recipe } from '../services/projectFiles';
+import { normalizeInputText } from '../services/textInput';
+
+// Headless entry point: the same prompts and generation loop as the app, writing the keyframe,
+// the clip and a JSON sidecar (an importable project file without media) for each job.
+
+const USAGE = `Usage:
+  typemotion --text <text> [options]
+  typemotion --manifest <file.json> [--out <dir>] [--provider gemini|local]
+
+Options:
+  --text <text>            Words to animate (use \\n for line breaks)
+  --style <text>           Art direction (a random preset when empty)
+  --suggest-style          Ask the text model for an art direction when --style is empty
+  --typography <text>      Typography instruction
+  --reference <path>       Reference image (PNG, JPEG or WebP)
+  --aspect <ratio>         16:9, 9:16 or 1:1 (default 16:9)
+  --resolution <res>       720p or 1080p (default 720p)
+  --mode <mode>            reveal, exit, transition, loop or custom-start (default reveal)
+  --target-text <text>     Transition: the words the clip ends on
+  --start-image <path>     Custom start: the opening frame
+  --sound <text>           Sound-design direction
+  --silent                 Ask for a clip without audio
+  --name <name>            Base file name (default: from the text)
+  --out <dir>              Output directory (default: current directory)
+  --provider <id>          gemini (needs GEMINI_API_KEY) or local, a stand-in that needs no network
+  --timeout <seconds>      Give up on a video after this long (default 600)
+  --keyframe-only          Skip the video
+
+A manifest is a JSON array of jobs, or { "defaults": {...}, "jobs": [...] }. Jobs use the option names in
+camelCase (text, style, typography, reference, aspect, resolution, mode, targetText, startImage, sound, silent,
+name); paths are relative to the manifest.`;
+
+interface Job {
+  text: string;
+  style?: string;
+  suggestStyle?: boolean;
+  typography?: string;
+  reference?: string;
+  aspect?: string;
+  resolution?: string;
+  mode?: string;
+  targetText?: string;
+  startImage?: string;
+  sound?: string;
+  silent?: boolean;
+  name?: string;
+}
+
+interface RunSettings {
+  provider: GenerationProvider;
+  outDir: string;
+  timeoutMs: number;
+  keyframeOnly: boolean;
+}
+
+const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  local: headlessProvider
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp'
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+class UsageError extends Error {}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const readImage = async (file: string): Promise<InlineImage> => {
+  const mimeType = IMAGE_TYPES[path.extname(file).toLowerCase()];
+  if (!mimeType) throw new UsageError(`${file}: only PNG, JPEG and WebP images are supported.`);
+  return { data: (await readFile(file)).toString('base64'), mimeType };
+};
+
+const oneOf = <T extends string>(value: string | undefined, options: readonly T[], fallback: T, label: string): T => {
+  if (value === undefined || value === '') return fallback;
+  if (!options.includes(value as T)) throw new UsageError(`Unknown ${label} "${value}". Use one of: ${options.join(', ')}.`);
+  return value as T;
+};
+
+// Resolves paths against `baseDir` and catches bad input before anything is sent to a provider
+const validateJob = (raw: Job, baseDir: string) => {
+  const text = normalizeInputText(String(raw.text ?? '').replace(/\\n/g, '\n'));
+  if (!text) throw new UsageError("Every job needs text.");
+  const mode = oneOf<AnimationMode>(raw.mode, ANIMATION_MODES.map(m => m.id), 'reveal', 'mode');
+  const targetText = normalizeInputText(String(raw.targetText ?? '')).split('\n')[0];
+  if (mode === 'transition' && !targetText) throw new UsageError("Transition mode needs targetText.");
+  if (mode === 'custom-start' && !raw.startImage) throw new UsageError("Custom start mode needs startImage.");
+  return {
+    text,
+    style: raw.style?.trim() || '',
+    suggestStyle: !!raw.suggestStyle,
+    typography: raw.typography?.trim() || '',
+    reference: raw.reference ? path.resolve(baseDir, raw.reference) : undefined,
+    format: {
+      aspectRatio: oneOf<AspectRatio>(raw.aspect, ASPECT_RATIO_OPTIONS.map(o => o.id), '16:9', 'aspect'),
+      resolution: oneOf<VideoResolution>(raw.resolution, ['720p', '1080p'], '720p', 'resolution')
+    },
+    mode,
+    targetText: mode === 'transition' ? targetText : undefined,
+    startImage: mode === 'custom-start' ? path.resolve(baseDir, raw.startImage!) : undefined,
+    sound: raw.silent || raw.sound ? { prompt: raw.sound?.trim() || '', silent: !!raw.silent } : undefined,
+    name: slugify(raw.name || text)
+  };
+};
+
+type ValidJob = ReturnType<typeof validateJob>;
+
+const runJob = async (job: ValidJob, { provider, outDir, timeoutMs, keyframeOnly }: RunSettings, label: string) => {
+  const createdAt = Date.now();
+  const onRetry = (error: GenerationError, retry: number, delayMs: number) =>
+    log(`${label} ${describeError(error).title}, retry ${retry} in ${Math.round(delayMs / 1000)}s`);
+
+  let style = job.style;
+  if (!style) {
+    style = job.suggestStyle ? await suggestStyle(provider, job.text) : resolveStyle(style);
+    log(`${label} style: ${style}`);
+  }
+
+  const referenceImage = job.reference ? await readImage(job.reference) : undefined;
+  const imageOptions = { text: job.text, style, typographyPrompt: job.typography, format: job.format };
+  log(`${label} keyframe`);
+  const keyframe = await generateKeyframe(provider, { ...imageOptions, referenceImage, onRetry });
+
+  const animation: AnimationOptions = { mode: job.mode, targetText: job.targetText, sound: job.sound };
+  if (job.targetText) {
+    log(`${label} target keyframe`);
+    animation.targetImage = await generateKeyframe(provider, { ...imageOptions, text: job.targetText, referenceImage, onRetry });
+  }
+  if (job.startImage) {
+    const start = await readImage(job.startImage);
+    animation.startImage = `data:${start.mimeType};base64,${start.data}`;
+  }
+
+  const files: Record<string, string> = {};
+  const write = async (kind: string, extension: string, data: Uint8Array) => {
+    const file = path.join(outDir, `${job.name}.${extension}`);
+    await writeFile(file, data);
+    files[kind] = path.basename(file);
+    process.stdout.write(`${file}\n`);
+  };
+
+  await write('keyframe', IMAGE_EXTENSIONS[keyframe.mimeType] || 'png', Buffer.from(keyframe.data, 'base64'));
+
+  if (!keyframeOnly) {
+    log(`${label} video (${provider.label})`);
+    const video = await generateVideo(provider, job.text, keyframe, style, job.format, animation, { timeoutMs, onRetry });
+    await write('video', videoFileExtension(video.type), new Uint8Array(await video.arrayBuffer()));
+  }
+
+  const recipe: Recipe = {
+    text: job.text,
+    style,
+    typographyPrompt: job.typography,
+    format: job.format,
+    animationMode: job.mode,
+    targetText: job.targetText,
+    sound: job.sound,
+    provider: provider.id,
+    models: provider.models,
+    promptTemplates: templateSnapshotsFor(!!referenceImage, job.mode)
+  };
+  const prompts = {
+    image: renderPrompt(imageTemplateId(!!referenceImage), imagePromptVariables(imageOptions)),
+    ...(keyframeOnly ? {} : { video: renderPrompt(videoTemplateId(job.mode), videoPromptVariables(job.text, style, animation)) })
+  };
+  const sidecar = projectSidecar(recipe, { createdAt, files, prompts });
+  await write('sidecar', 'json', new TextEncoder().encode(JSON.stringify(sidecar, null, 2)));
+};
+
+const loadManifest = async (file: string): Promise<Job[]> => {
+  let data: any;
+  try {
+    data = JSON.parse(await readFile(file, 'utf8'));
+  } catch (e: any) {
+    throw new UsageError(`Could not read manifest ${file}: ${e.message}`);
+  }
+  const jobs = Array.isArray(data) ? data : data?.jobs;
+  if (!Array.isArray(jobs) || !jobs.length) throw new UsageError("The manifest has no jobs.");
+  const defaults = Array.isArray(data) ? {} : data.defaults || {};
+  return jobs.map((job: Job) => ({ ...defaults, ...job }));
+};
+
+// Batch jobs that would write to the same name get -2, -3, ... so nothing is overwritten
+const uniqueNames = (jobs: ValidJob[]) => {
+  const seen = new Map<string, number>();
+  return jobs.map(job => {
+    const count = (seen.get(job.name) || 0) + 1;
+    seen.set(job.name, count);
+    return count > 1 ? { ...job, name: `${job.name}-${count}` } : job;
+  });
+};
+
+const main = async (): Promise<number> => {
+  const { values } = parseArgs({
+    options: {
+      text: { type: 'string' },
+      style: { type: 'string' },
+      'suggest-style': { type: 'boolean' },
+      typography: { type: 'string' },
+      reference: { type: 'string' },
+      aspect: { type: 'string' },
+      resolution: { type: 'string' },
+      mode: { type: 'string' },
+      'target-text': { type: 'string' },
+      'start-image': { type: 'string' },
+      sound: { type: 'string' },
+      silent: { type: 'boolean' },
+      name: { type: 'string' },
+      manifest: { type: 'string' },
+      out: { type: 'string' },
+      provider: { type: 'string' },
+      timeout: { type: 'string' },
+      'keyframe-only': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help || (!values.text && !values.manifest)) {
+    log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const providerId = oneOf<ProviderId>(values.provider, ['gemini', 'local'], 'gemini', 'provider');
+  if (providerId === 'gemini') {
+    // The app's build inlines the key under both names; here it comes from the environment
+    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new UsageError("Set GEMINI_API_KEY, or use --provider local.");
+    process.env.API_KEY = apiKey;
+  }
+  const timeoutSeconds = Number(values.timeout ?? 600);
+  if (!(timeoutSeconds > 0)) throw new UsageError("--timeout must be a positive number of seconds.");
+
+  const rawJobs: Job[] = values.manifest
+    ? await loadManifest(values.manifest)
+    : [{
+      text: values.text!,
+      style: values.style,
+      suggestStyle: values['suggest-style'],
+      typography: values.typography,
+      reference: values.reference,
+      aspect: values.aspect,
+      resolution: values.resolution,
+      mode: values.mode,
+      targetText: values['target-text'],
+      startImage: values['start-image'],
+      sound: values.sound,
+      silent: values.silent,
+      name: values.name
+    }];
+  const baseDir = values.manifest ? path.dirname(path.resolve(values.manifest)) : process.cwd();
+  const jobs = uniqueNames(rawJobs.map((job, i) => {
+    try {
+      return validateJob(job, baseDir);
+    } catch (e: any) {
+      throw new UsageError(rawJobs.length > 1 ? `Job ${i + 1}: ${e.message}` : e.message);
+    }
+  }));
+
+  const settings: RunSettings = {
+    provider: PROVIDERS[providerId],
+    outDir: path.resolve(values.out || '.'),
+    timeoutMs: timeoutSeconds * 1000,
+    keyframeOnly: !!values['keyframe-only']
+  };
+  await mkdir(settings.outDir, { recursive: true });
+
+  // One job at a time: the video models rate-limit quickly and failures stay easy to read
+  let failed = 0;
+  for (const [i, job] of jobs.entries()) {
+    const label = `[${i + 1}/${jobs.length}] ${job.name}:`;
+    try {
+      await runJob(job, settings, label);
+    } catch (e) {
+      failed++;
+      const { title, message } = describeError(e);
+      log(`${label} ${title}. ${message}`);
+    }
+  }
+  if (jobs.length > 1) log(`${jobs.length - failed} of ${jobs.length} jobs finished.`);
+  return failed ? 1 : 0;
+};
+
+// parseArgs reports bad flags as TypeErrors with an ERR_PARSE_ARGS_* code
+const isUsageError = (e: unknown): e is Error =>
+  e instanceof UsageError || (e instanceof Error && !!(e as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS'));
+
+main().then(code => {
+  process.exitCode = code;
+}, (e: unknown) => {
+  log(isUsageError(e) ? `${e.message}\n\n${USAGE}` : e instanceof Error ? e.stack || e.message : String(e));
+  process.exitCode = 2;
+});
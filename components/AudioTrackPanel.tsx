@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { AUDIO_MODES, AudioTrack, FADE_OPTIONS, MUSIC_FILE_ACCEPT, musicGainAt, needsMusic } from '../services/audioTrack';
+import { ClipEdits, editedDuration, isPlayableEdit } from '../services/clipEdits';
+import { Music, Upload, X } from 'lucide-react';
+
+interface AudioTrackPanelProps {
+  track: AudioTrack;
+  edits: ClipEdits;
+  onChange: (track: AudioTrack) => void;
+}
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 text-[10px] font-bold rounded-md transition-colors ${active ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`;
+
+// Plays the music next to the player so the choice can be heard before exporting. Forward edits follow
+// the player's position; reversed and ping-pong previews run on their own loop, so sync is approximate there.
+export const useAudioPreview = (videoRef: React.RefObject<HTMLVideoElement | null>, track: AudioTrack, edits: ClipEdits, sourceDuration: number) => {
+  const { mode, music, musicVolume, originalVolume, fadeIn, fadeOut, offset } = track;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const wasMuted = video.muted;
+    video.muted = wasMuted || mode === 'none' || (mode === 'replace' && !!music);
+    video.volume = mode === 'mix' ? originalVolume : 1;
+
+    if (!needsMusic(mode) || !music || !sourceDuration) {
+      return () => {
+        video.muted = wasMuted;
+        video.volume = 1;
+      };
+    }
+
+    const url = URL.createObjectURL(music.blob);
+    const audio = new Audio(url);
+    const total = editedDuration(edits, sourceDuration);
+    const startedAt = performance.now();
+    let handle = 0;
+
+    const tick = (now: number) => {
+      const t = isPlayableEdit(edits)
+        ? Math.min(total, Math.max(0, (video.currentTime - edits.trimStart) / edits.speed))
+        : ((now - startedAt) / 1000) % total;
+      const target = offset + t;
+      if (video.paused && isPlayableEdit(edits)) {
+        if (!audio.paused) audio.pause();
+      } else {
+        if (Math.abs(audio.currentTime - target) > 0.3) audio.currentTime = target;
+        if (audio.paused) audio.play().catch(() => {});
+      }
+      audio.volume = Math.min(1, musicGainAt({ musicVolume, fadeIn, fadeOut }, t, total));
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(handle);
+      audio.pause();
+      URL.revokeObjectURL(url);
+      video.muted = wasMuted;
+      video.volume = 1;
+    };
+  }, [videoRef, mode, music, musicVolume, originalVolume, fadeIn, fadeOut, offset, edits, sourceDuration]);
+};
+
+export const AudioTrackPanel: React.FC<AudioTrackPanelProps> = ({ track, edits, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const update = (changes: Partial<AudioTrack>) => onChange({ ...track, ...changes });
+  const showMusic = needsMusic(track.mode);
+
+  return (
+    <div className="w-full p-3 bg-white dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-2xl space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <Music size={14} className="text-stone-400 flex-shrink-0" />
+        <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800" role="radiogroup" aria-label="Audio">
+          {AUDIO_MODES.map(m => <button key={m.id} type="button" role="radio" aria-checked={track.mode === m.id} onClick={() => update({ mode: m.id })} title={m.description} className={optionClass(track.mode === m.id)}>{m.label}</button>)}
+        </div>
+        {showMusic && (
+          <>
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-2 py-1 text-[10px] font-bold text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white border border-dashed border-stone-300 dark:border-zinc-700 rounded-md max-w-[12rem]">
+              <Upload size={12} className="flex-shrink-0" /> <span className="truncate">{track.music ? track.music.name : 'Choose music'}</span>
+            </button>
+            <input type="file" ref={fileInputRef} onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) update({ music: { name: file.name, blob: file } });
+              e.target.value = '';
+            }} accept={MUSIC_FILE_ACCEPT} className="sr-only" />
+            {track.music && (
+              <button type="button" onClick={() => update({ music: null })} className="p-1 text-stone-400 hover:text-stone-900 dark:hover:text-white" aria-label="Remove music"><X size={12} /></button>
+            )}
+          </>
+        )}
+      </div>
+
+      {showMusic && track.music && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <label className="flex items-center gap-2 text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">
+            Music
+            <input type="range" min={0} max={1} step={0.05} value={track.musicVolume} onChange={(e) => update({ musicVolume: Number(e.target.value) })} className="w-20 accent-stone-900 dark:accent-stone-100" aria-label="Music volume" />
+          </label>
+          {track.mode === 'mix' && (
+            <label className="flex items-center gap-2 text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">
+              Clip
+              <input type="range" min={0} max={1} step={0.05} value={track.originalVolume} onChange={(e) => update({ originalVolume: Number(e.target.value) })} className="w-20 accent-stone-900 dark:accent-stone-100" aria-label="Generated audio volume" />
+            </label>
+          )}
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">Fade in</span>
+            <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+              {FADE_OPTIONS.map(fade => <button key={fade} type="button" onClick={() => update({ fadeIn: fade })} className={optionClass(track.fadeIn === fade)}>{fade ? `${fade}s` : 'Off'}</button>)}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">Fade out</span>
+            <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+              {FADE_OPTIONS.map(fade => <button key={fade} type="button" onClick={() => update({ fadeOut: fade })} className={optionClass(track.fadeOut === fade)}>{fade ? `${fade}s` : 'Off'}</button>)}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider" title="Where in the music file the clip starts">
+            Start at
+            <input type="number" min={0} step={0.5} value={track.offset} onChange={(e) => update({ offset: Math.max(0, Number(e.target.value) || 0) })} className="w-16 bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-md px-1.5 py-0.5 font-mono normal-case text-stone-900 dark:text-white" />
+            <span className="normal-case">s</span>
+          </label>
+        </div>
+      )}
+
+      {track.mode === 'mix' && !isPlayableEdit(edits) && (
+        <p className="text-[10px] text-amber-600 dark:text-amber-500">Reversed and ping-pong clips lose their generated audio, so only the music is exported.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useSyncExternalStore } from 'react';
+import { AnimationOptions, OutputFormat } from '../types';
+import { BatchQueue, BatchItem, BatchItemInput, MAX_BATCH_CONCURRENCY } from '../services/batchQueue';
+import { parseCsv, createZipBlob, triggerDownload, slugify, imageFileExtension, videoFileExtension } from '../utils';
+import { Loader2, ArrowLeft, ListPlus, Upload, Play, Pause, RotateCcw, Trash2, Download, Layers, Check, AlertTriangle } from 'lucide-react';
+
+interface BatchPanelProps {
+  queue: BatchQueue;
+  defaults: {
+    style: string;
+    typographyPrompt: string;
+    referenceImage: string | null;
+    format: OutputFormat;
+    animation: AnimationOptions;
+  };
+  onClose: () => void;
+  ensureKey: () => Promise<boolean>;
+}
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  'queued': 'Queued',
+  'generating-image': 'Designing',
+  'generating-video': 'Animating',
+  'done': 'Done',
+  'error': 'Failed'
+};
+
+// Accepts either a header row (text, style, typography) or positional columns in that order
+const csvToInputs = (csv: string): BatchItemInput[] => {
+  const rows = parseCsv(csv);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('text');
+  const column = (names: string[], fallback: number) => hasHeader ? header.findIndex(h => names.includes(h)) : fallback;
+  const textCol = column(['text'], 0);
+  const styleCol = column(['style'], 1);
+  const typoCol = column(['typography', 'typographyprompt'], 2);
+
+  return rows.slice(hasHeader ? 1 : 0).map(row => ({
+    text: row[textCol] || '',
+    style: styleCol >= 0 ? row[styleCol]?.trim() || undefined : undefined,
+    typographyPrompt: typoCol >= 0 ? row[typoCol]?.trim() || undefined : undefined
+  }));
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ queue, defaults, onClose, ensureKey }) => {
+  const snapshot = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  const [listInput, setListInput] = useState('');
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const { items, concurrency, isPaused, isRunning } = snapshot;
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const failedCount = items.filter(i => i.status === 'error').length;
+  const pendingCount = items.filter(i => i.status === 'queued').length;
+
+  const enqueue = (inputs: BatchItemInput[]) => {
+    queue.add(inputs.map(input => ({
+      ...input,
+      style: input.style || defaults.style.trim() || undefined,
+      typographyPrompt: input.typographyPrompt || defaults.typographyPrompt,
+      referenceImage: defaults.referenceImage || undefined,
+      format: defaults.format,
+      // Transitions need a second word per item, so batch runs fall back to a plain reveal
+      animation: defaults.animation.mode === 'transition' ? { mode: 'reveal' } : defaults.animation
+    })));
+  };
+
+  const handleAddList = () => {
+    enqueue(listInput.split(/\r?\n/).map(text => ({ text })));
+    setListInput('');
+  };
+
+  const handleCsvImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    enqueue(csvToInputs(await file.text()));
+  };
+
+  const handleStart = async () => {
+    if (!(await ensureKey())) return;
+    queue.start();
+  };
+
+  // The container depends on the provider (MP4 from Veo, WebM or APNG locally), so the blob names the extension
+  const handleDownload = async (item: BatchItem) => {
+    try {
+      const video = await (await fetch(item.videoUrl!)).blob();
+      triggerDownload(item.videoUrl!, `typemotion-${slugify(item.text)}.${videoFileExtension(video.type)}`);
+      setError(null);
+    } catch (e) {
+      console.error("Batch item download failed", e);
+      setError(`Could not download "${item.text}".`);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    setError(null);
+    try {
+      const finished = items.filter(i => i.status === 'done' && i.videoUrl);
+      const entries = await Promise.all(finished.map(async (item, idx) => {
+        const base = `${String(idx + 1).padStart(2, '0')}-${slugify(item.text)}`;
+        const video = await (await fetch(item.videoUrl!)).blob();
+        const files = [{ name: `${base}.${videoFileExtension(video.type)}`, data: video as Blob }];
+        if (item.imageSrc) {
+          const image = await (await fetch(item.imageSrc)).blob();
+          files.push({ name: `${base}.${imageFileExtension(image.type)}`, data: image });
+        }
+        return files;
+      }));
+      const manifest = finished.map(({ text, style, typographyPrompt }) => ({ text, style, typographyPrompt }));
+      const zip = await createZipBlob([...entries.flat(), { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) }]);
+      const url = URL.createObjectURL(zip);
+      triggerDownload(url, `typemotion-batch-${Date.now()}.zip`);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Batch download failed", e);
+      setError("Could not bundle the batch results.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-white dark:bg-zinc-950">
+      <div className="flex items-center justify-between mb-6 mr-12">
+        <h2 className="text-2xl font-bold text-stone-900 dark:text-white flex items-center gap-2">
+          <Layers size={22} /> Batch
+        </h2>
+        <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-xs uppercase tracking-wide">
+          <ArrowLeft size={14} /> Back
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div className="md:col-span-2 space-y-2">
+          <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+            <ListPlus size={14} /> Phrases (one per line)
+          </label>
+          <textarea value={listInput} onChange={(e) => setListInput(e.target.value)} placeholder={"WELCOME\nCHAPTER ONE\nTHE END"} className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white resize-none h-28" />
+          <div className="flex gap-2">
+            <button type="button" onClick={handleAddList} disabled={!listInput.trim()} className="px-4 py-2 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-xs font-bold rounded-lg disabled:opacity-50">Add to queue</button>
+            <button type="button" onClick={() => csvInputRef.current?.click()} className="px-4 py-2 border border-dashed border-stone-300 dark:border-zinc-700 text-stone-500 dark:text-zinc-400 text-xs font-medium rounded-lg flex items-center gap-1.5 hover:bg-stone-50 dark:hover:bg-zinc-800">
+              <Upload size={12} /> Import CSV
+            </button>
+            <input type="file" ref={csvInputRef} onChange={handleCsvImport} accept=".csv,text/csv" className="sr-only" />
+          </div>
+          <p className="text-[10px] text-stone-400 dark:text-zinc-500">CSV columns: text, style, typography. Empty style or typography falls back to the create form.</p>
+          {defaults.animation.mode === 'transition' && (
+            <p className="text-[10px] text-amber-600 dark:text-amber-500">Transition mode needs two words, so batch items use Reveal instead.</p>
+          )}
+        </div>
+        <div className="space-y-3">
+          <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">Concurrency</label>
+          <div className="flex gap-1">
+            {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <button key={n} type="button" onClick={() => queue.setConcurrency(n)} className={`flex-1 py-1.5 text-xs font-bold rounded-md border ${concurrency === n ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 border-transparent' : 'border-stone-200 dark:border-zinc-700 text-stone-500 dark:text-stone-400'}`}>{n}</button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {isPaused ? (
+              <button type="button" onClick={handleStart} disabled={pendingCount === 0} className="flex-1 py-2 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-xs font-bold rounded-lg flex items-center justify-center gap-1.5 disabled:opacity-50">
+                <Play size={12} className="fill-current" /> {doneCount + failedCount > 0 ? 'Resume' : 'Start'}
+              </button>
+            ) : (
+              <button type="button" onClick={queue.pause} className="flex-1 py-2 bg-amber-500 text-white text-xs font-bold rounded-lg flex items-center justify-center gap-1.5">
+                <Pause size={12} /> Pause
+              </button>
+            )}
+            <button type="button" onClick={queue.retryFailed} disabled={failedCount === 0} className="py-2 px-3 border border-stone-200 dark:border-zinc-700 text-stone-500 dark:text-stone-400 rounded-lg disabled:opacity-40" title="Retry failed">
+              <RotateCcw size={12} />
+            </button>
+            <button type="button" onClick={queue.clear} disabled={items.length === 0} className="py-2 px-3 border border-stone-200 dark:border-zinc-700 text-stone-500 dark:text-stone-400 rounded-lg disabled:opacity-40" title="Clear finished and queued">
+              <Trash2 size={12} />
+            </button>
+          </div>
+          <button type="button" onClick={handleDownloadAll} disabled={doneCount === 0 || isZipping} className="w-full py-2 border border-stone-200 dark:border-zinc-700 text-stone-900 dark:text-stone-200 text-xs font-bold rounded-lg flex items-center justify-center gap-1.5 disabled:opacity-40">
+            {isZipping ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />} Download all ({doneCount})
+          </button>
+          <p className="text-[10px] text-stone-400 dark:text-zinc-500">
+            {doneCount}/{items.length} done{failedCount > 0 ? ` · ${failedCount} failed` : ''}{isPaused && isRunning ? ' · pausing…' : ''}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+
+      <div className="space-y-2">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-3 p-2 rounded-xl border border-stone-200 dark:border-zinc-800 bg-stone-50 dark:bg-zinc-900">
+            <div className="w-24 aspect-video rounded-md overflow-hidden bg-stone-200 dark:bg-zinc-800 flex-shrink-0">
+              {item.videoUrl
+                ? <video src={item.videoUrl} autoPlay loop muted playsInline className="w-full h-full object-cover" />
+                : item.imageSrc && <img src={item.imageSrc} alt={item.text} className="w-full h-full object-cover" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold text-stone-900 dark:text-white truncate">{item.text}</p>
+              <p className="text-[10px] text-stone-500 dark:text-stone-400 truncate">{item.error || item.style || 'Random style'}</p>
+            </div>
+            <span className={`flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider ${item.status === 'error' ? 'text-red-500' : item.status === 'done' ? 'text-emerald-600 dark:text-emerald-400' : 'text-stone-400 dark:text-zinc-500'}`}>
+              {(item.status === 'generating-image' || item.status === 'generating-video') && <Loader2 size={10} className="animate-spin" />}
+              {item.status === 'done' && <Check size={10} />}
+              {item.status === 'error' && <AlertTriangle size={10} />}
+              {STATUS_LABELS[item.status]}
+            </span>
+            {item.status === 'error' && (
+              <button type="button" onClick={() => queue.retry(item.id)} className="p-1.5 text-stone-500 hover:text-stone-900 dark:hover:text-white" title="Retry">
+                <RotateCcw size={12} />
+              </button>
+            )}
+            {item.status === 'done' && item.videoUrl && (
+              <button type="button" onClick={() => handleDownload(item)} className="p-1.5 text-stone-500 hover:text-stone-900 dark:hover:text-white" title="Download">
+                <Download size={12} />
+              </button>
+            )}
+            <button type="button" onClick={() => queue.remove(item.id)} disabled={item.status === 'generating-image' || item.status === 'generating-video'} className="p-1.5 text-stone-400 hover:text-red-500 disabled:opacity-30" title="Remove">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
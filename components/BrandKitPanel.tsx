@@ -0,0 +1,273 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { BrandKit, createBrandKit, deleteBrandKit, parseBrandKits, saveBrandKit, serializeBrandKits } from '../services/brandKits';
+import { FONT_FILE_ACCEPT, GuideFont, loadFontFile } from '../services/glyphGuide';
+import { fileToBase64, triggerDownload } from '../utils';
+import { ArrowLeft, Briefcase, Check, Download, FileUp, Plus, Trash2, Upload, X } from 'lucide-react';
+
+interface BrandKitPanelProps {
+  kits: BrandKit[];
+  activeKitId: string | null;
+  // Current form values, used when saving the form as a new kit
+  formDefaults: {
+    style: string;
+    typographyPrompt: string;
+    referenceImage: string | null;
+    font?: GuideFont;
+  };
+  onKitsChanged: () => Promise<void>;
+  onUse: (kit: BrandKit) => void;
+  onClose: () => void;
+}
+
+const MAX_PALETTE_COLOURS = 8;
+
+const inputClass = "w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white";
+const labelClass = "text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider";
+
+const downloadKits = (kits: BrandKit[], name: string) => {
+  const url = URL.createObjectURL(serializeBrandKits(kits));
+  triggerDownload(url, `${name}.brandkit.json`);
+  URL.revokeObjectURL(url);
+};
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'brand-kit';
+
+export const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ kits, activeKitId, formDefaults, onKitsChanged, onUse, onClose }) => {
+  const [draft, setDraft] = useState<BrandKit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<BrandKit>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const run = async (task: () => Promise<void>, failure: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await task();
+    } catch (e: any) {
+      console.error(failure, e);
+      setError(e?.message || failure);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) throw new Error("Give the kit a name.");
+    await saveBrandKit({ ...draft, name: draft.name.trim() });
+    await onKitsChanged();
+    setDraft(null);
+  }, "Could not save the brand kit.");
+
+  const handleDelete = (kit: BrandKit) => run(async () => {
+    if (!window.confirm(`Delete the "${kit.name}" brand kit?`)) return;
+    await deleteBrandKit(kit.id);
+    await onKitsChanged();
+    if (draft?.id === kit.id) setDraft(null);
+  }, "Could not delete the brand kit.");
+
+  const handleImport = (file: File) => run(async () => {
+    const imported = parseBrandKits(await file.text());
+    for (const kit of imported) await saveBrandKit(kit);
+    await onKitsChanged();
+    setNotice(`Imported ${imported.length} brand kit(s).`);
+  }, "Could not import brand kits.");
+
+  const newFromForm = () => setDraft(createBrandKit({
+    name: '',
+    style: formDefaults.style,
+    typographyPrompt: formDefaults.typographyPrompt,
+    referenceImages: formDefaults.referenceImage ? [formDefaults.referenceImage] : [],
+    font: formDefaults.font
+  }));
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-white dark:bg-zinc-950">
+      <div className="flex items-center justify-between mb-6 mr-12">
+        <h2 className="text-2xl font-bold text-stone-900 dark:text-white flex items-center gap-2">
+          <Briefcase size={22} /> Brand Kits
+        </h2>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => importInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl font-bold text-xs uppercase tracking-wide">
+            <FileUp size={14} /> Import
+          </button>
+          <input type="file" ref={importInputRef} onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }} accept="application/json,.json" className="sr-only" />
+          <button type="button" onClick={() => downloadKits(kits, 'typemotion')} disabled={!kits.length} className="flex items-center gap-1.5 px-3 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl font-bold text-xs uppercase tracking-wide disabled:opacity-40">
+            <Download size={14} /> Export all
+          </button>
+          <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-xs uppercase tracking-wide">
+            <ArrowLeft size={14} /> Back
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+      {notice && <p className="mb-4 text-sm text-stone-500 dark:text-stone-400">{notice}</p>}
+
+      {draft ? (
+        <div className="max-w-2xl space-y-5">
+          <div className="space-y-2">
+            <label className={labelClass}>Name</label>
+            <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. Spring campaign" className={inputClass} autoFocus />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Palette</label>
+            <div className="flex flex-wrap items-center gap-2">
+              {draft.palette.map((colour, i) => (
+                <div key={i} className="relative group">
+                  <input type="color" value={colour} onChange={(e) => update({ palette: draft.palette.map((c, j) => j === i ? e.target.value : c) })} className="h-9 w-9 rounded-lg border border-stone-200 dark:border-zinc-700 cursor-pointer bg-transparent" aria-label={`Palette colour ${i + 1}`} />
+                  <button type="button" onClick={() => update({ palette: draft.palette.filter((_, j) => j !== i) })} className="absolute -top-1.5 -right-1.5 p-0.5 bg-stone-900 text-white rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100" aria-label={`Remove colour ${colour}`}>
+                    <X size={10} />
+                  </button>
+                </div>
+              ))}
+              {draft.palette.length < MAX_PALETTE_COLOURS && (
+                <button type="button" onClick={() => update({ palette: [...draft.palette, '#000000'] })} className="h-9 w-9 flex items-center justify-center rounded-lg border border-dashed border-stone-300 dark:border-zinc-700 text-stone-400 hover:text-stone-900 dark:hover:text-white" aria-label="Add colour">
+                  <Plus size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Art direction</label>
+            <textarea value={draft.style} onChange={(e) => update({ style: e.target.value })} className={`${inputClass} resize-none h-20`} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Typography</label>
+            <textarea value={draft.typographyPrompt} onChange={(e) => update({ typographyPrompt: e.target.value })} className={`${inputClass} resize-none h-20`} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Reference images</label>
+            <div className="flex flex-wrap items-center gap-2">
+              {draft.referenceImages.map((src, i) => (
+                <div key={i} className="h-14 w-14 relative rounded overflow-hidden border border-stone-200 dark:border-zinc-700 group">
+                  <img src={src} alt={`Reference ${i + 1}`} className="w-full h-full object-cover" />
+                  <button type="button" onClick={() => update({ referenceImages: draft.referenceImages.filter((_, j) => j !== i) })} className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity" aria-label={`Remove reference ${i + 1}`}>
+                    <X size={12} className="text-white" />
+                  </button>
+                </div>
+              ))}
+              <button type="button" onClick={() => referenceInputRef.current?.click()} className="h-14 w-14 flex items-center justify-center rounded border border-dashed border-stone-300 dark:border-zinc-700 text-stone-400 hover:text-stone-900 dark:hover:text-white" aria-label="Add reference images">
+                <Upload size={14} />
+              </button>
+              <input type="file" ref={referenceInputRef} multiple onChange={async (e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                const added = await Promise.all(files.map(fileToBase64));
+                setDraft(prev => prev && { ...prev, referenceImages: [...prev.referenceImages, ...added] });
+              }} accept="image/*" className="sr-only" />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className={labelClass}>Font</label>
+              <div className="flex items-center gap-2">
+                <button type="button" onClick={() => fontInputRef.current?.click()} className="flex-1 border border-dashed border-stone-300 dark:border-zinc-700 rounded-xl h-10 flex items-center justify-center gap-2 text-stone-500 dark:text-zinc-400 hover:bg-stone-50 dark:hover:bg-zinc-800 text-xs truncate px-2">
+                  <Upload size={14} /> {draft.font?.label || 'Upload font'}
+                </button>
+                {draft.font && (
+                  <button type="button" onClick={() => update({ font: undefined })} className="p-1 text-stone-400 hover:text-stone-900 dark:hover:text-white" aria-label="Remove font"><X size={14} /></button>
+                )}
+              </div>
+              <input type="file" ref={fontInputRef} onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) run(async () => update({ font: await loadFontFile(file) }), "Could not load that font.");
+              }} accept={FONT_FILE_ACCEPT} className="sr-only" />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Logo</label>
+              <div className="flex items-center gap-2">
+                <button type="button" onClick={() => logoInputRef.current?.click()} className="flex-1 border border-dashed border-stone-300 dark:border-zinc-700 rounded-xl h-10 flex items-center justify-center gap-2 text-stone-500 dark:text-zinc-400 hover:bg-stone-50 dark:hover:bg-zinc-800 text-xs">
+                  <Upload size={14} /> {draft.logo ? 'Replace' : 'Upload logo'}
+                </button>
+                {draft.logo && (
+                  <div className="h-10 w-10 relative rounded overflow-hidden border border-stone-200 dark:border-zinc-700 group bg-stone-100 dark:bg-zinc-800">
+                    <img src={draft.logo} alt="Logo" className="w-full h-full object-contain" />
+                    <button type="button" onClick={() => update({ logo: undefined })} className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity" aria-label="Remove logo">
+                      <X size={12} className="text-white" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              <input type="file" ref={logoInputRef} onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) update({ logo: await fileToBase64(file) });
+              }} accept="image/*" className="sr-only" />
+              <p className="text-[10px] text-stone-400 dark:text-zinc-500">Exports and GIFs can stamp it in the bottom-right corner.</p>
+            </div>
+          </div>
+          <div className="flex items-center justify-end gap-2 pt-4 border-t border-stone-100 dark:border-zinc-800">
+            <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white font-bold text-xs uppercase tracking-wide">Cancel</button>
+            <button type="button" onClick={handleSave} className="px-5 py-2.5 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors text-xs uppercase tracking-wide">Save kit</button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-2 mb-6">
+            <button type="button" onClick={() => setDraft(createBrandKit({ name: '' }))} className="flex items-center gap-1.5 px-3 py-2 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-xl font-bold text-xs uppercase tracking-wide">
+              <Plus size={14} /> New kit
+            </button>
+            <button type="button" onClick={newFromForm} className="flex items-center gap-1.5 px-3 py-2 border border-stone-200 dark:border-zinc-700 text-stone-600 dark:text-stone-300 hover:bg-stone-50 dark:hover:bg-zinc-800 rounded-xl font-bold text-xs uppercase tracking-wide">
+              <Plus size={14} /> From current form
+            </button>
+          </div>
+
+          {kits.length === 0 && (
+            <p className="text-sm text-stone-400 dark:text-zinc-500 py-16 text-center">No brand kits yet. Create one or import a kit file from your team.</p>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {kits.map((kit) => (
+              <div key={kit.id} className={`rounded-xl border overflow-hidden bg-stone-50 dark:bg-zinc-900 flex flex-col ${kit.id === activeKitId ? 'border-stone-900 dark:border-stone-100' : 'border-stone-200 dark:border-zinc-800'}`}>
+                <div className="p-3 flex-1 flex flex-col gap-2">
+                  <div className="flex items-center gap-2">
+                    {kit.logo && <img src={kit.logo} alt="" className="h-6 w-6 object-contain" />}
+                    <p className="font-bold text-sm text-stone-900 dark:text-white truncate flex-1">{kit.name}</p>
+                    {kit.id === activeKitId && <Check size={14} className="text-stone-900 dark:text-white" />}
+                  </div>
+                  {kit.palette.length > 0 && (
+                    <div className="flex gap-1">
+                      {kit.palette.map((colour, i) => <span key={i} className="h-4 w-4 rounded-sm border border-black/10" style={{ backgroundColor: colour }} title={colour} />)}
+                    </div>
+                  )}
+                  <p className="text-xs text-stone-500 dark:text-stone-400 line-clamp-2">{kit.style || 'No art direction'}</p>
+                  <p className="text-[10px] text-stone-400 dark:text-zinc-500 mt-auto">
+                    {kit.referenceImages.length} reference(s){kit.font ? ` · ${kit.font.label}` : ''}
+                  </p>
+                </div>
+                <div className="flex border-t border-stone-200 dark:border-zinc-800 divide-x divide-stone-200 dark:divide-zinc-800">
+                  <button onClick={() => onUse(kit)} className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-medium text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800" title="Prefill the create form">
+                    <Check size={12} /> Use
+                  </button>
+                  <button onClick={() => setDraft(kit)} className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-medium text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800">
+                    Edit
+                  </button>
+                  <button onClick={() => downloadKits([kit], slugify(kit.name))} className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-medium text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800" title="Export as JSON">
+                    <Download size={12} />
+                  </button>
+                  <button onClick={() => handleDelete(kit)} className="flex-1 py-2 flex items-center justify-center text-xs font-medium text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Delete">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { CACHE_SIZE_OPTIONS, CacheEntry, clearCache, deleteCacheEntry, enforceCacheLimit, formatBytes, getCacheSettings, listCacheEntries, peekCacheValue, saveCacheSettings } from '../services/generationCache';
+import { CacheKind } from '../services/generationCore';
+import { Loader2, Trash2, ArrowLeft, Database, Type, Image as ImageIcon, Video as VideoIcon } from 'lucide-react';
+
+interface CachePanelProps {
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<CacheKind, React.ReactNode> = {
+  style: <Type size={14} />,
+  image: <ImageIcon size={14} />,
+  video: <VideoIcon size={14} />
+};
+
+const KIND_LABELS: Record<CacheKind, string> = {
+  style: 'Style',
+  image: 'Keyframe',
+  video: 'Video'
+};
+
+const formatTimestamp = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 text-[10px] font-bold rounded-md transition-colors ${active ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`;
+
+// Video blobs get an object URL only while their row is on screen
+const VideoThumb: React.FC<{ blob: Blob }> = ({ blob }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  useEffect(() => {
+    const url = URL.createObjectURL(blob);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+  return src ? <video src={src} muted loop playsInline onMouseEnter={(e) => e.currentTarget.play().catch(() => {})} onMouseLeave={(e) => e.currentTarget.pause()} className="w-full h-full object-cover" /> : null;
+};
+
+// Payloads are only read for rows on screen; the list itself is metadata
+const useCachedValue = (key: string) => {
+  const [value, setValue] = useState<string | Blob | undefined>(undefined);
+  useEffect(() => {
+    let active = true;
+    peekCacheValue(key).then(v => { if (active) setValue(v); }, e => console.warn("Could not read cache entry", e));
+    return () => { active = false; };
+  }, [key]);
+  return value;
+};
+
+const Preview: React.FC<{ entry: CacheEntry; value?: string | Blob }> = ({ entry, value }) => {
+  if (entry.kind === 'image' && typeof value === 'string') return <img src={value} alt={entry.label} className="w-full h-full object-cover" />;
+  if (entry.kind === 'video' && value instanceof Blob) return <VideoThumb blob={value} />;
+  return <div className="w-full h-full flex items-center justify-center text-stone-400">{KIND_ICONS[entry.kind]}</div>;
+};
+
+const CacheRow: React.FC<{ entry: CacheEntry; onDelete: (entry: CacheEntry) => void }> = ({ entry, onDelete }) => {
+  const value = useCachedValue(entry.key);
+  return (
+    <div className="flex items-center gap-3 p-2 rounded-xl border border-stone-200 dark:border-zinc-800 bg-stone-50 dark:bg-zinc-900">
+      <div className="w-20 aspect-video flex-shrink-0 rounded-lg overflow-hidden bg-stone-200 dark:bg-zinc-800">
+        <Preview entry={entry} value={value} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-bold text-sm text-stone-900 dark:text-white truncate flex items-center gap-1.5">
+          <span className="text-stone-400 flex-shrink-0" title={KIND_LABELS[entry.kind]}>{KIND_ICONS[entry.kind]}</span>
+          <span className="truncate">{entry.label}</span>
+        </p>
+        {entry.kind === 'style' && typeof value === 'string' && <p className="text-xs text-stone-500 dark:text-stone-400 truncate">{value}</p>}
+        <p className="text-[10px] text-stone-400 dark:text-zinc-500 truncate">{entry.model} · {formatBytes(entry.size)} · used {formatTimestamp(entry.lastUsedAt)}{entry.hits ? ` · ${entry.hits} reuse${entry.hits === 1 ? '' : 's'}` : ''}</p>
+      </div>
+      <button type="button" onClick={() => onDelete(entry)} className="p-2 text-stone-400 hover:text-red-500 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20" title="Remove from cache">
+        <Trash2 size={14} />
+      </button>
+    </div>
+  );
+};
+
+export const CachePanel: React.FC<CachePanelProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [maxBytes, setMaxBytes] = useState(() => getCacheSettings().maxBytes);
+  const [kindFilter, setKindFilter] = useState<CacheKind | 'all'>('all');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await listCacheEntries());
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to load cache", e);
+      setError(e?.message || "Could not load the cache.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleLimitChange = async (bytes: number) => {
+    setMaxBytes(bytes);
+    saveCacheSettings({ ...getCacheSettings(), maxBytes: bytes });
+    if (await enforceCacheLimit(bytes)) await refresh();
+  };
+
+  const handleDelete = async (entry: CacheEntry) => {
+    await deleteCacheEntry(entry.key);
+    setEntries(prev => prev.filter(e => e.key !== entry.key));
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Remove every cached result? Identical requests will be paid for again.")) return;
+    await clearCache();
+    setEntries([]);
+  };
+
+  const totalBytes = entries.reduce((sum, e) => sum + e.size, 0);
+  const visible = kindFilter === 'all' ? entries : entries.filter(e => e.kind === kindFilter);
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-white dark:bg-zinc-950">
+      <div className="flex items-center justify-between mb-6 mr-12">
+        <h2 className="text-2xl font-bold text-stone-900 dark:text-white flex items-center gap-2">
+          <Database size={22} /> Cache
+        </h2>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={handleClear} disabled={!entries.length} className="flex items-center gap-1.5 px-3 py-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl font-bold text-xs uppercase tracking-wide disabled:opacity-40">
+            <Trash2 size={14} /> Clear
+          </button>
+          <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-xs uppercase tracking-wide">
+            <ArrowLeft size={14} /> Back
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-stone-500 dark:text-stone-400">Style suggestions, keyframes and videos are stored under a hash of the model, prompt, input images and settings. Identical requests are answered from here unless caching is turned off in the form or you regenerate.</p>
+
+      <div className="mb-6 space-y-3">
+        <div className="h-2 rounded-full bg-stone-100 dark:bg-zinc-800 overflow-hidden">
+          <div className="h-full bg-stone-900 dark:bg-stone-100 transition-all" style={{ width: `${Math.min(100, totalBytes / maxBytes * 100)}%` }} />
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <span className="text-xs text-stone-500 dark:text-stone-400">{entries.length} entr{entries.length === 1 ? 'y' : 'ies'} · {formatBytes(totalBytes)} of {formatBytes(maxBytes)}</span>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider" title="The least recently used results are removed beyond this">Limit</span>
+            <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+              {CACHE_SIZE_OPTIONS.map(bytes => <button key={bytes} type="button" onClick={() => handleLimitChange(bytes)} className={optionClass(maxBytes === bytes)}>{formatBytes(bytes)}</button>)}
+            </div>
+          </div>
+          <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800" role="radiogroup" aria-label="Show">
+            {(['all', 'style', 'image', 'video'] as const).map(kind => (
+              <button key={kind} type="button" role="radio" aria-checked={kindFilter === kind} onClick={() => setKindFilter(kind)} className={optionClass(kindFilter === kind)}>{kind === 'all' ? 'All' : KIND_LABELS[kind]}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-16 text-stone-400 dark:text-zinc-500">
+          <Loader2 size={20} className="animate-spin" />
+        </div>
+      )}
+
+      {!isLoading && error && (
+        <p className="text-sm text-red-500 dark:text-red-400">{error}</p>
+      )}
+
+      {!isLoading && !error && visible.length === 0 && (
+        <p className="text-sm text-stone-400 dark:text-zinc-500 py-16 text-center">Nothing cached yet.</p>
+      )}
+
+      <div className="space-y-2">
+        {visible.map(entry => <CacheRow key={entry.key} entry={entry} onDelete={handleDelete} />)}
+      </div>
+    </div>
+  );
+};
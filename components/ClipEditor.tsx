@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect } from 'react';
+import { ClipEdits, DEFAULT_CLIP_EDITS, HOLD_OPTIONS, SPEED_OPTIONS, editedDuration, frameAt, isIdentityEdit } from '../services/clipEdits';
+import { Scissors, Repeat, Undo2, ArrowLeftRight } from 'lucide-react';
+
+interface ClipEditorProps {
+  edits: ClipEdits;
+  sourceDuration: number;
+  onChange: (edits: ClipEdits) => void;
+}
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 text-[10px] font-bold rounded-md transition-colors ${active ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`;
+
+const MIN_TRIM_LENGTH = 0.2;
+
+// Drives a <video> element so it previews the edited timeline. Forward stretches play natively
+// (smooth, with audio); reversed stretches and holds are shown by seeking.
+export const useEditedPlayback = (videoRef: React.RefObject<HTMLVideoElement | null>, edits: ClipEdits, sourceDuration: number) => {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !sourceDuration || isIdentityEdit(edits, sourceDuration)) {
+      if (video) {
+        video.playbackRate = 1;
+        video.loop = true;
+      }
+      return;
+    }
+
+    video.loop = false;
+    const total = editedDuration(edits, sourceDuration);
+    const startedAt = performance.now();
+    let handle = 0;
+
+    const tick = (now: number) => {
+      const t = (((now - startedAt) / 1000) % total + total) % total;
+      const { sourceTime, direction } = frameAt(edits, sourceDuration, t);
+      if (direction === 1) {
+        video.playbackRate = edits.speed;
+        if (video.paused) {
+          video.currentTime = sourceTime;
+          video.play().catch(() => {});
+        } else if (Math.abs(video.currentTime - sourceTime) > 0.25) {
+          video.currentTime = sourceTime;
+        }
+      } else {
+        if (!video.paused) video.pause();
+        if (!video.seeking && Math.abs(video.currentTime - sourceTime) > 1 / 30) video.currentTime = sourceTime;
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(handle);
+      video.playbackRate = 1;
+      video.loop = true;
+      video.play().catch(() => {});
+    };
+  }, [videoRef, edits, sourceDuration]);
+};
+
+export const ClipEditor: React.FC<ClipEditorProps> = ({ edits, sourceDuration, onChange }) => {
+  const update = (changes: Partial<ClipEdits>) => onChange({ ...edits, ...changes });
+  const trimEnd = edits.trimEnd ?? sourceDuration;
+  const total = editedDuration(edits, sourceDuration);
+
+  return (
+    <div className="w-full p-3 bg-white dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-2xl space-y-3">
+      <div className="flex items-center gap-3">
+        <Scissors size={14} className="text-stone-400 flex-shrink-0" />
+        <div className="flex-1 grid grid-cols-2 gap-3">
+          <label className="flex items-center gap-2 text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">
+            In
+            <input type="range" min={0} max={sourceDuration} step={0.04} value={edits.trimStart} onChange={(e) => update({ trimStart: Math.min(Number(e.target.value), trimEnd - MIN_TRIM_LENGTH) })} className="flex-1 accent-stone-900 dark:accent-stone-100" aria-label="Trim start" />
+            <span className="font-mono normal-case w-10 text-right">{edits.trimStart.toFixed(2)}s</span>
+          </label>
+          <label className="flex items-center gap-2 text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">
+            Out
+            <input type="range" min={0} max={sourceDuration} step={0.04} value={trimEnd} onChange={(e) => {
+              const value = Math.max(Number(e.target.value), edits.trimStart + MIN_TRIM_LENGTH);
+              update({ trimEnd: value >= sourceDuration ? null : value });
+            }} className="flex-1 accent-stone-900 dark:accent-stone-100" aria-label="Trim end" />
+            <span className="font-mono normal-case w-10 text-right">{trimEnd.toFixed(2)}s</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">Speed</span>
+          <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+            {SPEED_OPTIONS.map(speed => <button key={speed} type="button" onClick={() => update({ speed })} className={optionClass(edits.speed === speed)}>{speed}×</button>)}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">Hold end</span>
+          <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+            {HOLD_OPTIONS.map(hold => <button key={hold} type="button" onClick={() => update({ holdLast: hold })} className={optionClass(edits.holdLast === hold)}>{hold ? `${hold}s` : 'Off'}</button>)}
+          </div>
+        </div>
+        <button type="button" onClick={() => update({ reverse: !edits.reverse })} aria-pressed={edits.reverse} className={`flex items-center gap-1.5 ${optionClass(edits.reverse)}`}>
+          <ArrowLeftRight size={12} /> Reverse
+        </button>
+        <button type="button" onClick={() => update({ pingPong: !edits.pingPong })} aria-pressed={edits.pingPong} className={`flex items-center gap-1.5 ${optionClass(edits.pingPong)}`}>
+          <Repeat size={12} /> Ping-pong
+        </button>
+        <div className="flex-1" />
+        <span className="text-[10px] font-mono text-stone-500 dark:text-stone-400">{total.toFixed(2)}s</span>
+        <button type="button" onClick={() => onChange(DEFAULT_CLIP_EDITS)} disabled={isIdentityEdit(edits, sourceDuration)} className="p-1 text-stone-400 hover:text-stone-900 dark:hover:text-white disabled:opacity-30" title="Reset edits">
+          <Undo2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
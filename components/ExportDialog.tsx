@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+import { EXPORT_FORMATS, ExportFormatId, exportAnimatedWebp, exportApng, exportPngSequence, exportPosterFrame, exportWebm } from '../services/exportFormats';
+import { ClipEdits, DEFAULT_CLIP_EDITS, editedDuration, sourceTimeAt } from '../services/clipEdits';
+import { AUDIO_MODES, AudioTrack, DEFAULT_AUDIO_TRACK, isOriginalAudio } from '../services/audioTrack';
+import { triggerDownload, getPreviewAspectClass } from '../utils';
+import { PackageOpen, X, Square } from 'lucide-react';
+
+interface ExportDialogProps {
+  videoSrc: string;
+  aspectRatio: AspectRatio;
+  edits?: ClipEdits;
+  audio?: AudioTrack; // Used by the WebM export; the image formats are silent
+  logo?: string; // Brand kit logo the user can stamp on the export
+  onClose: () => void;
+}
+
+const WIDTH_OPTIONS = [{ value: undefined, label: 'Full' }, { value: 1280, label: '1280' }, { value: 720, label: '720' }, { value: 480, label: '480' }];
+const FPS_OPTIONS = [12, 24, 30];
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 text-[10px] font-bold rounded-md transition-colors ${active ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ videoSrc, aspectRatio, edits = DEFAULT_CLIP_EDITS, audio = DEFAULT_AUDIO_TRACK, logo, onClose }) => {
+  const [format, setFormat] = useState<ExportFormatId>('webm');
+  const [maxWidth, setMaxWidth] = useState<number | undefined>(720);
+  const [fps, setFps] = useState<number>(24);
+  const [posterTime, setPosterTime] = useState<number>(0);
+  const [withLogo, setWithLogo] = useState<boolean>(true);
+  // Source length of the clip; the poster slider runs over the edited timeline
+  const [sourceDuration, setSourceDuration] = useState<number>(0);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const selected = EXPORT_FORMATS.find(f => f.id === format)!;
+  const usesFps = format === 'webp' || format === 'apng' || format === 'png-sequence';
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    const options = { aspectRatio, edits, fps, maxWidth, logo: withLogo ? logo : undefined, signal: controller.signal, onProgress: setProgress };
+    try {
+      let blob: Blob;
+      switch (format) {
+        case 'webm': blob = await exportWebm(videoSrc, { ...options, audio }); break;
+        case 'webp': blob = await exportAnimatedWebp(videoSrc, options); break;
+        case 'apng': blob = await exportApng(videoSrc, options); break;
+        case 'png-sequence': blob = await exportPngSequence(videoSrc, options); break;
+        case 'poster': blob = await exportPosterFrame(videoSrc, posterTime, options); break;
+      }
+      const url = URL.createObjectURL(blob);
+      const suffix = format === 'poster' ? `-poster-${posterTime.toFixed(1)}s` : format === 'png-sequence' ? '-frames' : '';
+      triggerDownload(url, `typemotion-${Date.now()}${suffix}.${selected.extension}`);
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      if (e?.name !== 'AbortError') {
+        console.error("Export failed", e);
+        setError(e?.message || `Could not export ${selected.label}.`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const percent = Math.round((progress || 0) * 100);
+
+  return (
+    <div className="w-full max-w-md p-4 bg-white dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-2xl shadow-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-stone-900 dark:text-white flex items-center gap-2"><PackageOpen size={14} /> Export</h3>
+        <button type="button" onClick={onClose} disabled={progress !== null} className="p-1 text-stone-400 hover:text-stone-900 dark:hover:text-white disabled:opacity-30" aria-label="Close export"><X size={14} /></button>
+      </div>
+
+      <fieldset disabled={progress !== null} className="space-y-3 disabled:opacity-50">
+        <div className="grid grid-cols-2 gap-1.5" role="radiogroup" aria-label="Export format">
+          {EXPORT_FORMATS.map(f => (
+            <button key={f.id} type="button" role="radio" aria-checked={format === f.id} onClick={() => setFormat(f.id)} title={f.description} className={`px-3 py-2 text-left text-xs font-bold rounded-lg border transition-colors ${format === f.id ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 border-transparent' : 'bg-stone-50 dark:bg-zinc-900 border-stone-200 dark:border-zinc-800 text-stone-600 dark:text-stone-300 hover:border-stone-400'}`}>{f.label}</button>
+          ))}
+        </div>
+        <p className="text-[10px] text-stone-400 dark:text-zinc-500">{selected.description}</p>
+        {format === 'webm' && (
+          <p className="text-[10px] text-stone-400 dark:text-zinc-500">Audio: {isOriginalAudio(audio) ? 'original' : AUDIO_MODES.find(m => m.id === audio.mode)!.label.toLowerCase()}{audio.music && !isOriginalAudio(audio) ? ` (${audio.music.name})` : ''}. Change it under the player.</p>
+        )}
+
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">Width</span>
+          <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+            {WIDTH_OPTIONS.map(opt => <button key={opt.label} type="button" onClick={() => setMaxWidth(opt.value)} className={optionClass(maxWidth === opt.value)}>{opt.label}</button>)}
+          </div>
+        </div>
+        {usesFps && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">FPS</span>
+            <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">
+              {FPS_OPTIONS.map(n => <button key={n} type="button" onClick={() => setFps(n)} className={optionClass(fps === n)}>{n}</button>)}
+            </div>
+          </div>
+        )}
+        {logo && (
+          <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 cursor-pointer" title="The active brand kit's logo, in the bottom-right corner">
+            <input type="checkbox" checked={withLogo} onChange={(e) => setWithLogo(e.target.checked)} className="accent-stone-900 dark:accent-stone-100" /> Brand logo
+          </label>
+        )}
+        {format === 'poster' && (
+          <div className="space-y-2">
+            <div className={`w-full rounded-lg overflow-hidden bg-black ${getPreviewAspectClass(aspectRatio)}`}>
+              <video ref={previewRef} src={videoSrc} muted playsInline preload="auto" onLoadedMetadata={(e) => setSourceDuration(e.currentTarget.duration || 0)} className="w-full h-full object-cover" />
+            </div>
+            <div className="flex items-center gap-3">
+              <input type="range" min={0} max={sourceDuration ? editedDuration(edits, sourceDuration) : 0} step={0.04} value={posterTime} onChange={(e) => {
+                const time = Number(e.target.value);
+                setPosterTime(time);
+                if (previewRef.current) previewRef.current.currentTime = sourceTimeAt(edits, sourceDuration, time);
+              }} className="flex-1 accent-stone-900 dark:accent-stone-100" aria-label="Poster frame time" />
+              <span className="text-[10px] font-mono text-stone-500 dark:text-stone-400 w-12 text-right">{posterTime.toFixed(2)}s</span>
+            </div>
+          </div>
+        )}
+      </fieldset>
+
+      {progress !== null ? (
+        <div className="flex items-center gap-2">
+          <div className="flex-1 h-1.5 bg-stone-100 dark:bg-zinc-800 rounded-full overflow-hidden" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+            <div className="h-full bg-stone-900 dark:bg-stone-100 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-[10px] font-bold text-stone-500 dark:text-stone-400 w-8 text-right">{percent}%</span>
+          <button type="button" onClick={() => abortRef.current?.abort()} className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-red-600 dark:hover:text-red-400">
+            <Square size={10} className="fill-current" /> Cancel
+          </button>
+        </div>
+      ) : (
+        <button type="button" onClick={handleExport} className="w-full py-2.5 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-xs font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors">
+          Export {selected.label}
+        </button>
+      )}
+
+      {error && <p className="text-[10px] text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
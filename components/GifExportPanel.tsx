@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+import { createGifFromVideo, DEFAULT_GIF_SETTINGS, GifProgress, GifSettings, GIF_FPS_OPTIONS, GIF_WIDTH_OPTIONS } from '../services/gifExport';
+import { ClipEdits } from '../services/clipEdits';
+import { triggerDownload } from '../utils';
+import { FileType, X, Square } from 'lucide-react';
+
+interface GifExportPanelProps {
+  videoSrc: string;
+  aspectRatio: AspectRatio;
+  edits?: ClipEdits;
+  logo?: string; // Brand kit logo the user can stamp on the GIF
+  onClose: () => void;
+}
+
+const LOOP_OPTIONS = [{ value: 0, label: '∞' }, { value: 1, label: '1×' }, { value: 3, label: '3×' }];
+const TARGET_SIZE_OPTIONS = [{ value: undefined, label: 'Any' }, { value: 1024, label: '1 MB' }, { value: 3072, label: '3 MB' }, { value: 8192, label: '8 MB' }];
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 text-[10px] font-bold rounded-md transition-colors ${active ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`;
+
+const OptionRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-center justify-between gap-3">
+    <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">{label}</span>
+    <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">{children}</div>
+  </div>
+);
+
+export const GifExportPanel: React.FC<GifExportPanelProps> = ({ videoSrc, aspectRatio, edits, logo, onClose }) => {
+  const [settings, setSettings] = useState<GifSettings>(DEFAULT_GIF_SETTINGS);
+  const [withLogo, setWithLogo] = useState<boolean>(true);
+  const [progress, setProgress] = useState<GifProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const update = (changes: Partial<GifSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setNotice(null);
+    setProgress({ stage: 'reading', value: 0 });
+    try {
+      const { blob, fitsTarget } = await createGifFromVideo(videoSrc, { aspectRatio, edits, settings, logo: withLogo ? logo : undefined, signal: controller.signal, onProgress: setProgress });
+      const url = URL.createObjectURL(blob);
+      triggerDownload(url, `typemotion-${Date.now()}.gif`);
+      URL.revokeObjectURL(url);
+      setNotice(fitsTarget
+        ? `Saved ${(blob.size / 1024 / 1024).toFixed(1)} MB GIF.`
+        : `Couldn't reach the target size; saved the smallest version (${(blob.size / 1024 / 1024).toFixed(1)} MB).`);
+    } catch (e: any) {
+      if (e?.name !== 'AbortError') {
+        console.error("GIF Generation Error:", e);
+        setError(e?.message || "Could not generate GIF from this video.");
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  // Reading and encoding each take half the bar
+  const percent = progress ? Math.round((progress.stage === 'reading' ? progress.value / 2 : 0.5 + progress.value / 2) * 100) : 0;
+  const progressLabel = progress?.stage === 'reading'
+    ? 'Reading frames'
+    : progress?.pass && progress.pass > 1 ? `Shrinking (pass ${progress.pass})` : 'Encoding';
+
+  return (
+    <div className="w-full max-w-sm p-4 bg-white dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-2xl shadow-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-stone-900 dark:text-white flex items-center gap-2"><FileType size={14} /> GIF export</h3>
+        <button type="button" onClick={onClose} disabled={!!progress} className="p-1 text-stone-400 hover:text-stone-900 dark:hover:text-white disabled:opacity-30" aria-label="Close GIF export"><X size={14} /></button>
+      </div>
+
+      <fieldset disabled={!!progress} className="space-y-2 disabled:opacity-50">
+        <OptionRow label="Width">
+          {GIF_WIDTH_OPTIONS.map(w => <button key={w} type="button" onClick={() => update({ width: w })} className={optionClass(settings.width === w)}>{w}</button>)}
+        </OptionRow>
+        <OptionRow label="FPS">
+          {GIF_FPS_OPTIONS.map(fps => <button key={fps} type="button" onClick={() => update({ fps })} className={optionClass(settings.fps === fps)}>{fps}</button>)}
+        </OptionRow>
+        <OptionRow label="Palette">
+          <button type="button" onClick={() => update({ palette: 'global' })} title="One palette for the whole clip; no colour flicker" className={optionClass(settings.palette === 'global')}>Global</button>
+          <button type="button" onClick={() => update({ palette: 'per-frame' })} title="Best colours per frame; may flicker" className={optionClass(settings.palette === 'per-frame')}>Per frame</button>
+        </OptionRow>
+        <OptionRow label="Dithering">
+          <button type="button" onClick={() => update({ dither: false })} className={optionClass(!settings.dither)}>Off</button>
+          <button type="button" onClick={() => update({ dither: true })} title="Smoother gradients, larger files" className={optionClass(settings.dither)}>On</button>
+        </OptionRow>
+        <OptionRow label="Loop">
+          {LOOP_OPTIONS.map(opt => <button key={opt.value} type="button" onClick={() => update({ loop: opt.value })} className={optionClass(settings.loop === opt.value)}>{opt.label}</button>)}
+        </OptionRow>
+        <OptionRow label="Max size">
+          {TARGET_SIZE_OPTIONS.map(opt => <button key={opt.label} type="button" onClick={() => update({ targetSizeKb: opt.value })} className={optionClass(settings.targetSizeKb === opt.value)}>{opt.label}</button>)}
+        </OptionRow>
+        {logo && (
+          <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 cursor-pointer" title="The active brand kit's logo, in the bottom-right corner">
+            <input type="checkbox" checked={withLogo} onChange={(e) => setWithLogo(e.target.checked)} className="accent-stone-900 dark:accent-stone-100" /> Brand logo
+          </label>
+        )}
+      </fieldset>
+
+      {progress ? (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400">
+            <span>{progressLabel}</span>
+            <span>{percent}%</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 h-1.5 bg-stone-100 dark:bg-zinc-800 rounded-full overflow-hidden" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+              <div className="h-full bg-stone-900 dark:bg-stone-100 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <button type="button" onClick={() => abortRef.current?.abort()} className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-red-600 dark:hover:text-red-400">
+              <Square size={10} className="fill-current" /> Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" onClick={handleExport} className="w-full py-2.5 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-xs font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors">
+          Export GIF
+        </button>
+      )}
+
+      {error && <p className="text-[10px] text-red-500 dark:text-red-400">{error}</p>}
+      {notice && <p className="text-[10px] text-stone-500 dark:text-stone-400">{notice}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+import { BUILTIN_FONTS, DEFAULT_GLYPH_GUIDE, FONT_FILE_ACCEPT, GlyphGuide, GuideAlign, GuideFont, GuideVertical, GUIDE_MARGINS, GUIDE_SCALES, GUIDE_WEIGHTS, lineBreaksMatch, loadFontFile, renderGlyphGuide } from '../services/glyphGuide';
+import { getPreviewAspectClass } from '../utils';
+import { AlignLeft, AlignCenter, AlignRight, Upload, LayoutTemplate } from 'lucide-react';
+
+interface GlyphGuidePanelProps {
+  text: string;
+  aspectRatio: AspectRatio;
+  guide: GlyphGuide | null; // null when the model is free to lay the text out itself
+  onChange: (guide: GlyphGuide | null) => void;
+}
+
+const ALIGN_OPTIONS: { id: GuideAlign; icon: React.ReactNode }[] = [
+  { id: 'left', icon: <AlignLeft size={12} /> },
+  { id: 'center', icon: <AlignCenter size={12} /> },
+  { id: 'right', icon: <AlignRight size={12} /> }
+];
+const VERTICAL_OPTIONS: GuideVertical[] = ['top', 'middle', 'bottom'];
+const PREVIEW_DEBOUNCE_MS = 200;
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 text-[10px] font-bold rounded-md transition-colors ${active ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`;
+
+const OptionRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-center justify-between gap-3">
+    <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">{label}</span>
+    <div className="flex gap-1 p-1 bg-stone-50 dark:bg-zinc-900 rounded-lg border border-stone-200 dark:border-zinc-800">{children}</div>
+  </div>
+);
+
+export const GlyphGuidePanel: React.FC<GlyphGuidePanelProps> = ({ text, aspectRatio, guide, onChange }) => {
+  // Uploaded fonts stay pickable for the session even after switching away from them
+  const [uploadedFonts, setUploadedFonts] = useState<GuideFont[]>([]);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!guide || !text.trim()) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      renderGlyphGuide(text, guide, aspectRatio)
+        .then(({ data, mimeType }) => {
+          if (cancelled) return;
+          setPreview(`data:${mimeType};base64,${data}`);
+          setError(null);
+        })
+        .catch(e => { if (!cancelled) setError(e?.message || "Could not render the guide."); });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, guide, aspectRatio]);
+
+  const update = (changes: Partial<GlyphGuide>) => guide && onChange({ ...guide, ...changes });
+
+  const handleFontUpload = async (file: File) => {
+    setError(null);
+    try {
+      const font = await loadFontFile(file);
+      setUploadedFonts(prev => [...prev.filter(f => f.family !== font.family), font]);
+      update({ font });
+    } catch (e: any) {
+      setError(e?.message || "Could not load that font.");
+    }
+  };
+
+  const fonts = [...BUILTIN_FONTS, ...uploadedFonts];
+  if (guide?.font.dataUrl && !fonts.some(f => f.family === guide.font.family)) fonts.push(guide.font);
+  const breaksStale = !!guide?.lineBreaks.trim() && !lineBreaksMatch(text, guide.lineBreaks);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+          <LayoutTemplate size={14} /> Layout Guide
+        </label>
+        <button type="button" onClick={() => onChange(guide ? null : DEFAULT_GLYPH_GUIDE)} aria-pressed={!!guide} className={optionClass(!!guide)}>
+          {guide ? 'On' : 'Off'}
+        </button>
+      </div>
+      {!guide ? (
+        <p className="text-[10px] text-stone-400 dark:text-zinc-500">Pick an exact font, line breaks and placement; the text is drawn locally and sent as a structural reference.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select value={guide.font.family} onChange={(e) => update({ font: fonts.find(f => f.family === e.target.value) ?? guide.font })} className="flex-1 min-w-0 bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-stone-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100" aria-label="Guide font">
+              {fonts.map(f => <option key={f.family} value={f.family}>{f.label}</option>)}
+            </select>
+            <button type="button" onClick={() => fontInputRef.current?.click()} className="flex items-center gap-1.5 px-2.5 border border-dashed border-stone-300 dark:border-zinc-700 rounded-lg text-[10px] font-bold text-stone-500 dark:text-zinc-400 hover:bg-stone-50 dark:hover:bg-zinc-800" aria-label="Upload font file">
+              <Upload size={12} /> Font
+            </button>
+            <input type="file" ref={fontInputRef} onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFontUpload(file);
+              e.target.value = '';
+            }} accept={FONT_FILE_ACCEPT} className="sr-only" />
+          </div>
+          <OptionRow label="Weight">
+            {GUIDE_WEIGHTS.map(w => <button key={w} type="button" onClick={() => update({ weight: w })} className={optionClass(guide.weight === w)}>{w}</button>)}
+          </OptionRow>
+          <OptionRow label="Align">
+            {ALIGN_OPTIONS.map(opt => <button key={opt.id} type="button" onClick={() => update({ align: opt.id })} className={optionClass(guide.align === opt.id)} aria-label={`Align ${opt.id}`}>{opt.icon}</button>)}
+          </OptionRow>
+          <OptionRow label="Position">
+            {VERTICAL_OPTIONS.map(v => <button key={v} type="button" onClick={() => update({ vertical: v })} className={`${optionClass(guide.vertical === v)} capitalize`}>{v}</button>)}
+          </OptionRow>
+          <OptionRow label="Safe area">
+            {GUIDE_MARGINS.map(m => <button key={m} type="button" onClick={() => update({ margin: m })} className={optionClass(guide.margin === m)}>{Math.round(m * 100)}%</button>)}
+          </OptionRow>
+          <OptionRow label="Size">
+            {GUIDE_SCALES.map(s => <button key={s} type="button" onClick={() => update({ scale: s })} className={optionClass(guide.scale === s)}>{Math.round(s * 100)}%</button>)}
+          </OptionRow>
+          <textarea value={guide.lineBreaks} onChange={(e) => update({ lineBreaks: e.target.value })} placeholder={`Line breaks, e.g.\n${text.trim().split(/\s+/).slice(0, 2).join('\n') || 'HELLO\nWORLD'}`} rows={2} className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-lg p-2 text-xs focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white resize-none" aria-label="Line breaks" />
+          {breaksStale && <p className="text-[10px] text-amber-600 dark:text-amber-400">Line breaks don't match the text any more; using a single line.</p>}
+          {preview && (
+            <div className={`w-full rounded-lg overflow-hidden border border-stone-200 dark:border-zinc-800 ${getPreviewAspectClass(aspectRatio)}`}>
+              <img src={preview} alt="Layout guide preview" className="w-full h-full object-contain bg-white" />
+            </div>
+          )}
+          {error && <p className="text-[10px] text-red-500 dark:text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
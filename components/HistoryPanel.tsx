@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { CreationRecord } from '../types';
+import { listCreations, deleteCreation, saveCreation } from '../services/historyStore';
+import { exportProject, parseProject, PROJECT_FILE_EXTENSION, projectFileName, recipeFromRecord, recipeLink } from '../services/projectFiles';
+import { triggerDownload, videoFileExtension } from '../utils';
+import { Loader2, Play, Download, Trash2, Wand2, ArrowLeft, History, Image as ImageIcon, FileUp, FileJson, Link2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+  onReplay: (record: CreationRecord) => void;
+  onRemix: (record: CreationRecord) => void;
+}
+
+const formatTimestamp = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose, onReplay, onRemix }) => {
+  const [records, setRecords] = useState<CreationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRecords(await listCreations());
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to load history", e);
+      setError(e?.message || "Could not load your history.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDelete = async (record: CreationRecord) => {
+    if (!window.confirm(`Delete "${record.text}" from history?`)) return;
+    try {
+      await deleteCreation(record.id);
+      setRecords(prev => prev.filter(r => r.id !== record.id));
+    } catch (e: any) {
+      console.error("Failed to delete creation", e);
+      setNotice(e?.message || `Could not delete "${record.text}".`);
+      await refresh();
+    }
+  };
+
+  const handleDownload = (record: CreationRecord) => {
+    if (!record.videoBlob) return;
+    const url = URL.createObjectURL(record.videoBlob);
+    triggerDownload(url, `typemotion-${record.createdAt}.${videoFileExtension(record.videoBlob.type)}`);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportProject = async (record: CreationRecord) => {
+    try {
+      const url = URL.createObjectURL(await exportProject(record));
+      triggerDownload(url, projectFileName(record));
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      console.error("Failed to export project", e);
+      setNotice(e?.message || "Could not export the project.");
+    }
+  };
+
+  const handleCopyLink = async (record: CreationRecord) => {
+    try {
+      await navigator.clipboard.writeText(recipeLink(recipeFromRecord(record)));
+      setNotice(`Link to "${record.text}" copied. It carries the recipe only, not the media.`);
+    } catch (e) {
+      console.warn("Could not copy recipe link", e);
+      setNotice("Could not copy the link to the clipboard.");
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const record = await parseProject(await file.text());
+      await saveCreation(record);
+      setNotice(`Imported "${record.text}".`);
+      await refresh();
+    } catch (e: any) {
+      console.error("Failed to import project", e);
+      setNotice(e?.message || "Could not import that project.");
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-white dark:bg-zinc-950">
+      <div className="flex items-center justify-between mb-6 mr-12">
+        <h2 className="text-2xl font-bold text-stone-900 dark:text-white flex items-center gap-2">
+          <History size={22} /> History
+        </h2>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => importInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl font-bold text-xs uppercase tracking-wide" title={`Import a ${PROJECT_FILE_EXTENSION} project`}>
+            <FileUp size={14} /> Import
+          </button>
+          <input type="file" ref={importInputRef} onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }} accept="application/json,.json" className="sr-only" />
+          <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-xs uppercase tracking-wide">
+            <ArrowLeft size={14} /> Back
+          </button>
+        </div>
+      </div>
+
+      {notice && <p className="mb-4 text-sm text-stone-500 dark:text-stone-400">{notice}</p>}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-16 text-stone-400 dark:text-zinc-500">
+          <Loader2 size={20} className="animate-spin" />
+        </div>
+      )}
+
+      {!isLoading && error && (
+        <p className="text-sm text-red-500 dark:text-red-400">{error}</p>
+      )}
+
+      {!isLoading && !error && records.length === 0 && (
+        <p className="text-sm text-stone-400 dark:text-zinc-500 py-16 text-center">Nothing here yet. Your creations are saved automatically.</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {records.map((record) => (
+          <div key={record.id} className="rounded-xl border border-stone-200 dark:border-zinc-800 overflow-hidden bg-stone-50 dark:bg-zinc-900 flex flex-col">
+            <div className="relative aspect-video bg-stone-200 dark:bg-zinc-800">
+              {record.keyframeImage
+                ? <img src={record.keyframeImage} alt={record.text} className="w-full h-full object-cover" />
+                : <div className="absolute inset-0 flex items-center justify-center text-stone-400"><ImageIcon size={24} /></div>}
+              {!record.videoBlob && (
+                <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/60 text-white text-[10px] font-bold uppercase tracking-wider rounded">Keyframe only</span>
+              )}
+            </div>
+            <div className="p-3 flex-1 flex flex-col gap-1">
+              <p className="font-bold text-sm text-stone-900 dark:text-white truncate">{record.text}</p>
+              <p className="text-xs text-stone-500 dark:text-stone-400 line-clamp-2">{record.style}</p>
+              <p className="text-[10px] text-stone-400 dark:text-zinc-500 mt-auto pt-2">{formatTimestamp(record.createdAt)} · {record.models.video}{record.rating ? ` · ${'★'.repeat(record.rating)}` : ''}</p>
+            </div>
+            <div className="flex border-t border-stone-200 dark:border-zinc-800 divide-x divide-stone-200 dark:divide-zinc-800">
+              <button onClick={() => onReplay(record)} disabled={!record.videoBlob} className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-medium text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800 disabled:opacity-40" title="Replay">
+                <Play size={12} /> Play
+              </button>
+              <button onClick={() => handleDownload(record)} disabled={!record.videoBlob} className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-medium text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800 disabled:opacity-40" title="Download MP4">
+                <Download size={12} />
+              </button>
+              <button onClick={() => handleExportProject(record)} className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-medium text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800" title={`Save as a ${PROJECT_FILE_EXTENSION} project file`}>
+                <FileJson size={12} />
+              </button>
+              <button onClick={() => handleCopyLink(record)} className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-medium text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800" title="Copy a link that prefills this recipe">
+                <Link2 size={12} />
+              </button>
+              <button onClick={() => onRemix(record)} className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-medium text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800" title="Remix into the create form">
+                <Wand2 size={12} /> Remix
+              </button>
+              <button onClick={() => handleDelete(record)} className="flex-1 py-2 flex items-center justify-center text-xs font-medium text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Delete">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
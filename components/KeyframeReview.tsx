@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { AspectRatio, KeyframeCandidate, LegibilityResult } from '../types';
+import { getPreviewAspectClass } from '../utils';
+import { Loader2, ArrowLeft, Check, RefreshCw, Clapperboard, Undo2, Send, SpellCheck } from 'lucide-react';
+
+interface KeyframeReviewProps {
+  candidates: KeyframeCandidate[];
+  selected: number;
+  aspectRatio: AspectRatio;
+  statusMessage: string;
+  isRefining: boolean;
+  onSelect: (index: number) => void;
+  onSelectVersion: (version: number) => void;
+  onRefine: (instruction: string) => void;
+  onUndo: () => void;
+  onBack: () => void;
+  onRegenerate: () => void;
+  onAnimate: () => void;
+}
+
+const REFINE_EXAMPLES = ["make the letters gold", "less fog", "move the text lower"];
+
+const toDataUrl = (candidate: KeyframeCandidate, version = candidate.activeVersion) => {
+  const { image } = candidate.versions[version];
+  return `data:${image.mimeType};base64,${image.data}`;
+};
+
+const LegibilityBadge: React.FC<{ result?: LegibilityResult; className?: string }> = ({ result, className = '' }) => {
+  if (!result) return null;
+  const percent = Math.round(result.score * 100);
+  const tone = result.score === 1 ? 'bg-emerald-500' : result.score >= 0.8 ? 'bg-amber-500' : 'bg-red-500';
+  const title = result.score === 1
+    ? `Reads "${result.read}"`
+    : `Reads "${result.read || '(nothing)'}" instead of "${result.expected}" after ${result.attempts} attempt(s)`;
+  return (
+    <span className={`flex items-center gap-1 px-1.5 py-0.5 ${tone} text-white text-[10px] font-bold rounded ${className}`} title={title}>
+      <SpellCheck size={10} /> {percent}%
+    </span>
+  );
+};
+
+export const KeyframeReview: React.FC<KeyframeReviewProps> = ({
+  candidates, selected, aspectRatio, statusMessage, isRefining,
+  onSelect, onSelectVersion, onRefine, onUndo, onBack, onRegenerate, onAnimate
+}) => {
+  const [instruction, setInstruction] = useState('');
+  const current = candidates[selected];
+  const isLandscape = aspectRatio === '16:9';
+  const activeLegibility = current?.versions[current.activeVersion].legibility;
+
+  const submitRefinement = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || isRefining) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-stone-50 dark:bg-zinc-950 flex flex-col">
+      <div className="flex items-center justify-between mb-6 mr-12">
+        <div>
+          <h2 className="text-2xl font-bold text-stone-900 dark:text-white">Review Keyframes</h2>
+          <p className="text-sm text-stone-500 dark:text-stone-400 mt-1">{statusMessage} Only the approved image is sent to video.</p>
+        </div>
+      </div>
+
+      {candidates.length > 1 && (
+        <div className={`grid gap-3 mb-6 ${isLandscape ? 'grid-cols-2 md:grid-cols-4' : 'grid-cols-4 md:grid-cols-6'}`}>
+          {candidates.map((candidate, idx) => (
+            <button key={idx} type="button" onClick={() => onSelect(idx)} onDoubleClick={onAnimate} disabled={isRefining} aria-pressed={selected === idx} className={`relative rounded-xl overflow-hidden transition-all ${getPreviewAspectClass(aspectRatio)} ${selected === idx ? 'ring-4 ring-stone-900 dark:ring-white shadow-xl' : 'ring-1 ring-stone-900/10 dark:ring-white/10 opacity-70 hover:opacity-100'}`}>
+              <img src={toDataUrl(candidate)} alt={`Keyframe option ${idx + 1}`} className="w-full h-full object-cover" />
+              <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/60 text-white text-[10px] font-bold rounded">{idx + 1}</span>
+              <LegibilityBadge result={candidate.versions[candidate.activeVersion].legibility} className="absolute bottom-2 left-2" />
+              {selected === idx && (
+                <span className="absolute top-2 right-2 p-1 bg-white text-stone-900 rounded-full shadow"><Check size={12} /></span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {current && (
+        <div className={`flex gap-6 ${isLandscape ? 'flex-col' : 'flex-col md:flex-row'}`}>
+          <div className={`relative rounded-2xl overflow-hidden shadow-2xl ring-1 ring-stone-900/5 dark:ring-white/10 bg-white dark:bg-zinc-900 ${getPreviewAspectClass(aspectRatio)} ${isLandscape ? 'w-full max-w-4xl mx-auto' : 'h-[50vh] mx-auto'}`}>
+            <img src={toDataUrl(current)} alt="Selected keyframe" className="w-full h-full object-cover" />
+            <LegibilityBadge result={activeLegibility} className="absolute top-3 left-3" />
+            {isRefining && (
+              <div className="absolute inset-0 bg-white/30 dark:bg-black/40 backdrop-blur-sm flex items-center justify-center">
+                <div className="bg-white dark:bg-zinc-800 p-3 rounded-full shadow-xl">
+                  <Loader2 className="w-6 h-6 text-stone-900 dark:text-white animate-spin" />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 space-y-3 w-full max-w-4xl mx-auto">
+            {activeLegibility && activeLegibility.score < 1 && (
+              <p className="text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900/30 rounded-lg px-3 py-2">
+                The text reads as "{activeLegibility.read || '(nothing legible)'}" instead of "{activeLegibility.expected}". Try another option, regenerate, or refine it.
+              </p>
+            )}
+            <form onSubmit={submitRefinement} className="flex gap-2">
+              <input type="text" value={instruction} onChange={(e) => setInstruction(e.target.value)} disabled={isRefining} placeholder={`Refine: "${REFINE_EXAMPLES[0]}"...`} className="flex-1 bg-white dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white" />
+              <button type="submit" disabled={!instruction.trim() || isRefining} className="px-4 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-xl disabled:opacity-50" title="Apply edit">
+                <Send size={14} />
+              </button>
+              <button type="button" onClick={onUndo} disabled={current.activeVersion === 0 || isRefining} className="px-3 border border-stone-200 dark:border-zinc-700 text-stone-500 dark:text-stone-400 rounded-xl disabled:opacity-40" title="Undo this edit">
+                <Undo2 size={14} />
+              </button>
+            </form>
+            <div className="flex flex-wrap gap-1.5">
+              {REFINE_EXAMPLES.map(example => (
+                <button key={example} type="button" onClick={() => setInstruction(example)} disabled={isRefining} className="px-2 py-1 bg-stone-100 dark:bg-zinc-800 hover:bg-stone-200 dark:hover:bg-zinc-700 text-stone-600 dark:text-stone-300 text-[10px] font-medium rounded-md border border-stone-200 dark:border-zinc-700">{example}</button>
+              ))}
+            </div>
+            {current.versions.length > 1 && (
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {current.versions.map((version, idx) => (
+                  <button key={idx} type="button" onClick={() => onSelectVersion(idx)} disabled={isRefining} title={version.instruction || 'Original'} className={`flex-shrink-0 w-24 text-left rounded-lg overflow-hidden border transition-all ${current.activeVersion === idx ? 'border-stone-900 dark:border-white' : 'border-stone-200 dark:border-zinc-800 opacity-70 hover:opacity-100'}`}>
+                    <img src={toDataUrl(current, idx)} alt={`Version ${idx + 1}`} className="w-full aspect-video object-cover" />
+                    <p className="px-1.5 py-1 text-[10px] text-stone-500 dark:text-stone-400 truncate">v{idx + 1} · {version.instruction || 'Original'}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6 flex flex-col md:flex-row items-center justify-between gap-4">
+        <button onClick={onBack} disabled={isRefining} className="flex items-center gap-2 px-6 py-3 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-sm uppercase tracking-wide group disabled:opacity-40">
+          <ArrowLeft size={18} className="group-hover:-translate-x-1 transition-transform" />
+          Edit Prompts
+        </button>
+        <div className="flex items-center gap-3">
+          <button onClick={onRegenerate} disabled={isRefining} className="px-5 py-3 bg-white dark:bg-zinc-900 text-stone-900 dark:text-stone-200 border border-stone-200 dark:border-zinc-700 font-bold rounded-xl hover:bg-stone-50 dark:hover:bg-zinc-800 transition-colors flex items-center gap-2 text-sm disabled:opacity-50">
+            <RefreshCw size={16} /> Regenerate
+          </button>
+          <button onClick={onAnimate} disabled={isRefining} className="px-6 py-3 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors flex items-center gap-2 shadow-xl shadow-stone-900/10 dark:shadow-white/5 active:scale-[0.98] text-sm disabled:opacity-50">
+            <Clapperboard size={16} /> Animate{candidates.length > 1 ? ` #${selected + 1}` : ''}{current && current.versions.length > 1 ? ` v${current.activeVersion + 1}` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
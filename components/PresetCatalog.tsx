@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { deleteUserPreset, filterPresets, listFavourites, listPresets, pickRandomPreset, Preset, PresetKind, PRESET_CATEGORIES, saveUserPreset, toggleFavourite } from '../services/presets';
+import { ArrowLeft, Dices, Library, Plus, Search, Star, Trash2, Check } from 'lucide-react';
+
+interface PresetSelection {
+  style?: Preset;
+  typography?: Preset;
+}
+
+interface PresetCatalogProps {
+  // Current form values, offered as the starting point for a new user preset
+  current: { style: string; typography: string };
+  thumbnail?: string | null; // Latest keyframe, saved with new presets as their preview
+  onApply: (selection: PresetSelection, combine: boolean) => void;
+  onClose: () => void;
+}
+
+const KIND_OPTIONS: { id: PresetKind | 'all'; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'style', label: 'Art direction' },
+  { id: 'typography', label: 'Typography' }
+];
+
+const chipClass = (active: boolean) =>
+  `px-2.5 py-1 text-[10px] font-bold uppercase tracking-wider rounded-lg border transition-colors ${active ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 border-transparent' : 'bg-stone-50 dark:bg-zinc-900 border-stone-200 dark:border-zinc-800 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`;
+
+const PresetThumbnail: React.FC<{ preset: Preset }> = ({ preset }) => preset.thumbnail
+  ? <img src={preset.thumbnail} alt="" className="w-full h-full object-cover" />
+  : (
+    <div className="w-full h-full flex items-center justify-center" style={{ background: `linear-gradient(135deg, ${preset.swatch[0]}, ${preset.swatch[1]})` }}>
+      <span className="text-lg font-black text-white/80 mix-blend-difference">Aa</span>
+    </div>
+  );
+
+export const PresetCatalog: React.FC<PresetCatalogProps> = ({ current, thumbnail, onApply, onClose }) => {
+  const [presets, setPresets] = useState<Preset[]>(() => listPresets());
+  const [favourites, setFavourites] = useState<string[]>(listFavourites);
+  const [query, setQuery] = useState('');
+  const [kind, setKind] = useState<PresetKind | 'all'>('all');
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const [selection, setSelection] = useState<PresetSelection>({});
+  const [combine, setCombine] = useState(false);
+  const [draft, setDraft] = useState<{ kind: PresetKind; label: string; prompt: string; tags: string } | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const filtered = useMemo(
+    () => filterPresets(presets, { kind: kind === 'all' ? undefined : kind, query, category, favouritesOnly }, favourites),
+    [presets, kind, query, category, favouritesOnly, favourites]
+  );
+  const categories = PRESET_CATEGORIES.filter(c => presets.some(p => p.category === c));
+
+  const toggleSelected = (preset: Preset) =>
+    setSelection(prev => ({ ...prev, [preset.kind]: prev[preset.kind]?.id === preset.id ? undefined : preset }));
+
+  // Draws from what's on screen, one of each kind the filters leave visible
+  const surprise = () => setSelection(prev => ({
+    style: pickRandomPreset(filtered.filter(p => p.kind === 'style')) || prev.style,
+    typography: pickRandomPreset(filtered.filter(p => p.kind === 'typography')) || prev.typography
+  }));
+
+  const handleDelete = (preset: Preset) => {
+    if (!window.confirm(`Delete the "${preset.label}" preset?`)) return;
+    deleteUserPreset(preset.id);
+    setPresets(listPresets());
+    setFavourites(listFavourites());
+    setSelection(prev => prev[preset.kind]?.id === preset.id ? { ...prev, [preset.kind]: undefined } : prev);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft || !draft.label.trim() || !draft.prompt.trim()) return;
+    setSaveError(null);
+    try {
+      await saveUserPreset({
+        kind: draft.kind,
+        label: draft.label.trim(),
+        prompt: draft.prompt.trim(),
+        category: 'Custom',
+        tags: draft.tags.split(',').map(t => t.trim().toLowerCase()).filter(Boolean),
+        thumbnail: thumbnail || undefined
+      });
+    } catch (e: any) {
+      setSaveError(e?.message || "Could not save the preset.");
+      return;
+    }
+    setPresets(listPresets());
+    setDraft(null);
+  };
+
+  const hasSelection = !!(selection.style || selection.typography);
+
+  return (
+    <div className="h-full flex flex-col bg-white dark:bg-zinc-950">
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 md:p-8">
+        <div className="flex items-center justify-between mb-6 mr-12">
+          <h2 className="text-2xl font-bold text-stone-900 dark:text-white flex items-center gap-2">
+            <Library size={22} /> Presets
+          </h2>
+          <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-xs uppercase tracking-wide">
+            <ArrowLeft size={14} /> Back
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-6">
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" />
+            <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search by name, mood or tag..." className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl pl-9 pr-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white" autoFocus />
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5">
+            {KIND_OPTIONS.map(opt => <button key={opt.id} type="button" onClick={() => setKind(opt.id)} className={chipClass(kind === opt.id)}>{opt.label}</button>)}
+            <span className="w-px h-5 bg-stone-200 dark:bg-zinc-800 mx-1" />
+            <button type="button" onClick={() => setFavouritesOnly(!favouritesOnly)} aria-pressed={favouritesOnly} className={`${chipClass(favouritesOnly)} flex items-center gap-1`}>
+              <Star size={10} className={favouritesOnly ? 'fill-current' : ''} /> Favourites
+            </button>
+            {categories.map(c => <button key={c} type="button" onClick={() => setCategory(category === c ? undefined : c)} className={chipClass(category === c)}>{c}</button>)}
+          </div>
+        </div>
+
+        {filtered.length === 0 && (
+          <p className="text-sm text-stone-400 dark:text-zinc-500 py-16 text-center">No presets match these filters.</p>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {filtered.map(preset => {
+            const isSelected = selection[preset.kind]?.id === preset.id;
+            const isFavourite = favourites.includes(preset.id);
+            return (
+              <div key={preset.id} className={`rounded-xl border overflow-hidden bg-stone-50 dark:bg-zinc-900 flex flex-col transition-colors ${isSelected ? 'border-stone-900 dark:border-stone-100 ring-2 ring-stone-900 dark:ring-stone-100' : 'border-stone-200 dark:border-zinc-800'}`}>
+                <button type="button" onClick={() => toggleSelected(preset)} aria-pressed={isSelected} className="relative aspect-video text-left" title={preset.prompt}>
+                  <PresetThumbnail preset={preset} />
+                  <span className="absolute bottom-1.5 left-1.5 px-1.5 py-0.5 bg-black/60 text-white text-[9px] font-bold uppercase tracking-wider rounded">{preset.kind === 'style' ? 'Art' : 'Type'}</span>
+                  {isSelected && <span className="absolute top-1.5 left-1.5 p-0.5 bg-white text-stone-900 rounded-full"><Check size={10} /></span>}
+                </button>
+                <div className="p-2.5 flex-1 flex flex-col gap-1">
+                  <div className="flex items-start gap-1">
+                    <p className="font-bold text-xs text-stone-900 dark:text-white flex-1 truncate">{preset.label}</p>
+                    <button type="button" onClick={() => setFavourites(toggleFavourite(preset.id))} aria-pressed={isFavourite} aria-label={isFavourite ? 'Remove from favourites' : 'Add to favourites'} className="text-stone-400 hover:text-amber-500">
+                      <Star size={12} className={isFavourite ? 'fill-amber-400 text-amber-400' : ''} />
+                    </button>
+                    {preset.custom && (
+                      <button type="button" onClick={() => handleDelete(preset)} aria-label="Delete preset" className="text-stone-400 hover:text-red-500"><Trash2 size={12} /></button>
+                    )}
+                  </div>
+                  <p className="text-[10px] text-stone-500 dark:text-stone-400 line-clamp-2">{preset.prompt}</p>
+                  <p className="text-[9px] text-stone-400 dark:text-zinc-500 mt-auto truncate">{[preset.category, ...preset.tags].join(' · ')}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-stone-100 dark:border-zinc-800">
+          {draft ? (
+            <div className="max-w-xl space-y-2">
+              <div className="flex gap-1.5">
+                {KIND_OPTIONS.filter(o => o.id !== 'all').map(opt => (
+                  <button key={opt.id} type="button" onClick={() => setDraft({ ...draft, kind: opt.id as PresetKind, prompt: opt.id === 'style' ? current.style : current.typography })} className={chipClass(draft.kind === opt.id)}>{opt.label}</button>
+                ))}
+              </div>
+              <input type="text" value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} placeholder="Preset name" className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl px-3 py-2 text-sm text-stone-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100" />
+              <textarea value={draft.prompt} onChange={(e) => setDraft({ ...draft, prompt: e.target.value })} placeholder="Prompt" className="w-full h-16 bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl p-3 text-sm text-stone-900 dark:text-white resize-none focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100" />
+              <input type="text" value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} placeholder="Tags, comma separated" className="w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl px-3 py-2 text-sm text-stone-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100" />
+              {saveError && <p className="text-sm text-red-500 dark:text-red-400">{saveError}</p>}
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => { setDraft(null); setSaveError(null); }} className="px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white font-bold text-xs uppercase tracking-wide">Cancel</button>
+                <button type="button" onClick={handleSaveDraft} disabled={!draft.label.trim() || !draft.prompt.trim()} className="px-4 py-2 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-xl font-bold text-xs uppercase tracking-wide disabled:opacity-40">Save preset</button>
+              </div>
+            </div>
+          ) : (
+            <button type="button" onClick={() => setDraft({ kind: 'style', label: '', prompt: current.style, tags: '' })} className="flex items-center gap-1.5 px-3 py-2 border border-stone-200 dark:border-zinc-700 text-stone-600 dark:text-stone-300 hover:bg-stone-50 dark:hover:bg-zinc-800 rounded-xl font-bold text-xs uppercase tracking-wide">
+              <Plus size={14} /> Save current as preset
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 px-6 md:px-8 py-4 border-t border-stone-200 dark:border-zinc-800 bg-stone-50 dark:bg-zinc-900">
+        <div className="flex-1 min-w-0 text-xs text-stone-500 dark:text-stone-400 truncate">
+          {hasSelection
+            ? [selection.style && `Art: ${selection.style.label}`, selection.typography && `Type: ${selection.typography.label}`].filter(Boolean).join(' + ')
+            : 'Pick an art direction and a typography preset to use together.'}
+        </div>
+        <button type="button" onClick={surprise} disabled={!filtered.length} className="flex items-center gap-1.5 px-3 py-2 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl font-bold text-xs uppercase tracking-wide disabled:opacity-40" title="Random pick from the presets shown">
+          <Dices size={14} /> Surprise me
+        </button>
+        <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400" title="Append to the form instead of replacing it">
+          <input type="checkbox" checked={combine} onChange={(e) => setCombine(e.target.checked)} className="accent-stone-900 dark:accent-stone-100" /> Combine
+        </label>
+        <button type="button" onClick={() => onApply(selection, combine)} disabled={!hasSelection} className="px-5 py-2.5 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 font-bold rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors text-xs uppercase tracking-wide disabled:opacity-40">
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
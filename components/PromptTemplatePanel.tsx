@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { AnimationOptions, OutputFormat } from '../types';
+import { activateTemplateVersion, importTemplates, listTemplates, listTemplateVersions, renderTemplate, ResolvedTemplate, resetTemplate, saveTemplate, serializeTemplates, TEMPLATE_VARIABLES, TemplateId, TemplateVariables } from '../services/promptTemplates';
+import { imagePromptVariables, videoPromptVariables } from '../services/geminiService';
+import { GlyphGuide } from '../services/glyphGuide';
+import { BrandKit } from '../services/brandKits';
+import { triggerDownload } from '../utils';
+import { ArrowLeft, Download, FileCode2, FileUp, RotateCcw, Save } from 'lucide-react';
+
+interface PromptTemplatePanelProps {
+  // Current form values, so the preview shows the prompt the next run would send
+  sample: {
+    text: string;
+    style: string;
+    typographyPrompt: string;
+    format: OutputFormat;
+    animation: AnimationOptions;
+    guide?: GlyphGuide;
+    brand?: BrandKit;
+  };
+  onClose: () => void;
+}
+
+const formatSavedAt = (ts: number) => ts ? new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : 'built-in';
+
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ sample, onClose }) => {
+  const [templates, setTemplates] = useState<ResolvedTemplate[]>(listTemplates);
+  const [selectedId, setSelectedId] = useState<TemplateId>(templates[0].id);
+  const selected = templates.find(t => t.id === selectedId)!;
+  const [draft, setDraft] = useState<string>(selected.body);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const versions = useMemo(() => listTemplateVersions(selectedId), [selectedId, templates]);
+  const isDirty = draft !== selected.body;
+
+  const variables = useMemo((): TemplateVariables => {
+    const text = sample.text.trim() || 'HELLO';
+    switch (selected.kind) {
+      case 'style': return { text };
+      case 'image': return imagePromptVariables({ ...sample, text });
+      case 'video': return videoPromptVariables(text, sample.style, { ...sample.animation, mode: selected.id.replace('video-', '') as AnimationOptions['mode'] }, sample.brand);
+    }
+  }, [sample, selected]);
+
+  const applyResult = (next: ResolvedTemplate) => {
+    setTemplates(listTemplates());
+    setDraft(next.body);
+  };
+
+  const select = (id: TemplateId) => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this template?")) return;
+    setSelectedId(id);
+    setDraft(templates.find(t => t.id === id)!.body);
+    setError(null);
+    setNotice(null);
+  };
+
+  // Inserts the variable at the cursor rather than appending, so it lands where the user is editing
+  const insertVariable = (name: string) => {
+    const editor = editorRef.current;
+    const token = `{${name}}`;
+    if (!editor) return setDraft(prev => prev + token);
+    const { selectionStart, selectionEnd } = editor;
+    setDraft(prev => prev.slice(0, selectionStart) + token + prev.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      editor.focus();
+      editor.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const count = importTemplates(await file.text());
+      const next = listTemplates();
+      setTemplates(next);
+      setDraft(next.find(t => t.id === selectedId)!.body);
+      setNotice(`Imported ${count} template(s).`);
+    } catch (e: any) {
+      setError(e?.message || "Could not import templates.");
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(serializeTemplates());
+    triggerDownload(url, 'typemotion-prompt-templates.json');
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-white dark:bg-zinc-950">
+      <div className="flex items-center justify-between mb-6 mr-12">
+        <h2 className="text-2xl font-bold text-stone-900 dark:text-white flex items-center gap-2">
+          <FileCode2 size={22} /> Prompt Templates
+        </h2>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => importInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl font-bold text-xs uppercase tracking-wide">
+            <FileUp size={14} /> Import
+          </button>
+          <input type="file" ref={importInputRef} onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }} accept="application/json,.json" className="sr-only" />
+          <button type="button" onClick={handleExport} className="flex items-center gap-1.5 px-3 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl font-bold text-xs uppercase tracking-wide">
+            <Download size={14} /> Export
+          </button>
+          <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-xs uppercase tracking-wide">
+            <ArrowLeft size={14} /> Back
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+      {notice && <p className="mb-4 text-sm text-stone-500 dark:text-stone-400">{notice}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-6">
+        <nav className="space-y-1" aria-label="Templates">
+          {templates.map(t => (
+            <button key={t.id} type="button" onClick={() => select(t.id)} aria-current={t.id === selectedId} className={`w-full text-left px-3 py-2 rounded-lg text-xs transition-colors ${t.id === selectedId ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-zinc-800'}`}>
+              <span className="font-bold block">{t.name}</span>
+              <span className="opacity-60">{t.isDefault ? 'Default' : `v${t.version}`}</span>
+            </button>
+          ))}
+        </nav>
+
+        <div className="space-y-4 min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-stone-500 dark:text-stone-400">{selected.description}</p>
+            <div className="flex items-center gap-2">
+              <select value={selected.version} onChange={(e) => applyResult(activateTemplateVersion(selectedId, Number(e.target.value)))} disabled={isDirty} className="bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-stone-900 dark:text-white disabled:opacity-50" aria-label="Template version">
+                {versions.map(v => <option key={v.version} value={v.version}>{v.version === 0 ? 'Default' : `v${v.version}`} · {formatSavedAt(v.savedAt)}</option>)}
+              </select>
+              <button type="button" onClick={() => applyResult(resetTemplate(selectedId))} disabled={selected.isDefault && !isDirty} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white disabled:opacity-40" title="Switch back to the built-in prompt; saved versions are kept">
+                <RotateCcw size={12} /> Reset
+              </button>
+              <button type="button" onClick={() => applyResult(saveTemplate(selectedId, draft))} disabled={!isDirty || !draft.trim()} className="flex items-center gap-1.5 px-3 py-1.5 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-lg text-[10px] font-bold uppercase tracking-wider disabled:opacity-40">
+                <Save size={12} /> Save as v{versions.reduce((max, v) => Math.max(max, v.version), 0) + 1}
+              </button>
+            </div>
+          </div>
+
+          <textarea ref={editorRef} value={draft} onChange={(e) => setDraft(e.target.value)} spellCheck={false} className="w-full h-56 bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl p-3 text-xs font-mono leading-relaxed focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 text-stone-900 dark:text-white resize-y" aria-label="Template body" />
+
+          <div className="flex flex-wrap gap-1.5">
+            {TEMPLATE_VARIABLES[selected.kind].map(v => (
+              <button key={v.name} type="button" onClick={() => insertVariable(v.name)} title={v.description} className="px-2 py-1 bg-stone-100 dark:bg-zinc-800 hover:bg-stone-200 dark:hover:bg-zinc-700 text-stone-600 dark:text-stone-300 text-[10px] font-mono rounded-md border border-stone-200 dark:border-zinc-700">{`{${v.name}}`}</button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-[10px] font-bold text-stone-400 dark:text-zinc-500 uppercase tracking-wider">Preview with the current form</span>
+            <pre className="whitespace-pre-wrap break-words p-3 bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-xl text-xs text-stone-700 dark:text-stone-300">{renderTemplate(draft, variables)}</pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { OutputFormat } from '../types';
+import { generateStoryboard, StoryboardShot, ShotProgress, MIN_STORYBOARD_SHOTS, MAX_STORYBOARD_SHOTS } from '../services/storyboard';
+import { describeError } from '../services/errors';
+import { limitInputText, MAX_TEXT_GRAPHEMES } from '../services/textInput';
+import { concatenateVideos, triggerDownload, slugify, getPreviewAspectClass } from '../utils';
+import { Loader2, ArrowLeft, Plus, Trash2, ChevronUp, ChevronDown, Clapperboard, Play, Download, Check, AlertTriangle } from 'lucide-react';
+
+interface StoryboardPanelProps {
+  defaults: {
+    style: string;
+    typographyPrompt: string;
+    referenceImage: string | null;
+    format: OutputFormat;
+  };
+  onClose: () => void;
+  ensureKey: () => Promise<boolean>;
+  onComplete?: (result: { shots: StoryboardShot[]; keyframes: string[]; sequence: Blob; style: string }) => void;
+}
+
+let shotCounter = 0;
+const createShot = (text = '', style = '', typographyPrompt = ''): StoryboardShot => ({
+  id: `shot-${++shotCounter}`,
+  text,
+  style,
+  typographyPrompt
+});
+
+const inputClass = "w-full bg-stone-50 dark:bg-zinc-900 border border-stone-200 dark:border-zinc-800 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900 dark:focus:ring-stone-100 transition-all placeholder-stone-300 dark:placeholder-zinc-700 text-stone-900 dark:text-white";
+
+export const StoryboardPanel: React.FC<StoryboardPanelProps> = ({ defaults, onClose, ensureKey, onComplete }) => {
+  const [shots, setShots] = useState<StoryboardShot[]>(() => [
+    createShot('WELCOME', defaults.style, defaults.typographyPrompt),
+    createShot('TO'),
+    createShot('2027'),
+  ]);
+  const [progress, setProgress] = useState<ShotProgress[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [stitchProgress, setStitchProgress] = useState<number | null>(null);
+  const [sequenceUrl, setSequenceUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A shot's clip depends on its own keyframe and the previous one, so editing shot i invalidates i onwards
+  const invalidateFrom = (index: number) => {
+    setProgress(prev => prev.slice(0, index));
+    if (sequenceUrl) {
+      URL.revokeObjectURL(sequenceUrl);
+      setSequenceUrl(null);
+    }
+  };
+
+  const updateShot = (index: number, changes: Partial<StoryboardShot>) => {
+    setShots(prev => prev.map((shot, i) => i === index ? { ...shot, ...changes } : shot));
+    invalidateFrom(index);
+  };
+
+  const moveShot = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= shots.length) return;
+    setShots(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    invalidateFrom(Math.min(index, target));
+  };
+
+  const removeShot = (index: number) => {
+    setShots(prev => prev.filter((_, i) => i !== index));
+    invalidateFrom(index);
+  };
+
+  const handleGenerate = async () => {
+    if (!(await ensureKey())) return;
+    setIsRunning(true);
+    setError(null);
+
+    const completed = progress
+      .filter(p => p.status === 'done' && p.imageSrc && p.videoUrl)
+      .map(p => {
+        const [mimeTypePart, data] = p.imageSrc!.split(';base64,');
+        return { image: { data, mimeType: mimeTypePart.replace('data:', '') }, videoUrl: p.videoUrl!, style: p.style };
+      });
+
+    try {
+      const result = await generateStoryboard(shots, {
+        format: defaults.format,
+        referenceImage: defaults.referenceImage || undefined,
+        completed,
+        onShotUpdate: (index, changes) => setProgress(prev => {
+          const next = [...prev];
+          next[index] = { ...(next[index] || { status: 'pending' }), ...changes };
+          return next;
+        })
+      });
+
+      setStitchProgress(0);
+      const sequence = await concatenateVideos(result.clipUrls, setStitchProgress);
+      setSequenceUrl(URL.createObjectURL(sequence));
+      onComplete?.({ shots, keyframes: result.keyframes, sequence, style: result.baseStyle });
+    } catch (e: any) {
+      console.error("Storyboard generation failed", e);
+      setError(describeError(e).message);
+    } finally {
+      setIsRunning(false);
+      setStitchProgress(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!sequenceUrl) return;
+    triggerDownload(sequenceUrl, `typemotion-${slugify(shots.map(s => s.text).join(' '))}.webm`);
+  };
+
+  const canGenerate = !isRunning && shots.length >= MIN_STORYBOARD_SHOTS && shots.every(s => s.text.trim());
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-white dark:bg-zinc-950">
+      <div className="flex items-center justify-between mb-6 mr-12">
+        <h2 className="text-2xl font-bold text-stone-900 dark:text-white flex items-center gap-2">
+          <Clapperboard size={22} /> Storyboard
+        </h2>
+        <button onClick={onClose} disabled={isRunning} className="flex items-center gap-2 px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-xs uppercase tracking-wide disabled:opacity-40">
+          <ArrowLeft size={14} /> Back
+        </button>
+      </div>
+
+      <p className="text-xs text-stone-500 dark:text-stone-400 mb-4">
+        Each shot ends on its keyframe and the next shot starts from it. Empty art direction reuses the first shot's. Format and reference image come from the create form.
+      </p>
+
+      <div className="space-y-3">
+        {shots.map((shot, index) => {
+          const shotProgress = progress[index];
+          return (
+            <div key={shot.id} className="flex gap-3 p-3 rounded-xl border border-stone-200 dark:border-zinc-800 bg-stone-50/50 dark:bg-zinc-900/50">
+              <div className={`w-32 flex-shrink-0 rounded-lg overflow-hidden bg-stone-200 dark:bg-zinc-800 relative ${getPreviewAspectClass(defaults.format.aspectRatio)}`}>
+                {shotProgress?.videoUrl
+                  ? <video src={shotProgress.videoUrl} autoPlay loop muted playsInline className="w-full h-full object-cover" />
+                  : shotProgress?.imageSrc && <img src={shotProgress.imageSrc} alt={shot.text} className="w-full h-full object-cover" />}
+                <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-black/60 text-white text-[10px] font-bold rounded">{index + 1}</span>
+                {(shotProgress?.status === 'generating-image' || shotProgress?.status === 'generating-video') && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/30"><Loader2 size={16} className="animate-spin text-white" /></div>
+                )}
+                {shotProgress?.status === 'done' && <Check size={14} className="absolute top-1 right-1 text-emerald-400" />}
+                {shotProgress?.status === 'error' && <AlertTriangle size={14} className="absolute top-1 right-1 text-red-400" />}
+              </div>
+              <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-2">
+                <input value={shot.text} onChange={(e) => updateShot(index, { text: limitInputText(e.target.value, MAX_TEXT_GRAPHEMES, 1) })} disabled={isRunning} placeholder="Text" dir="auto" className={`${inputClass} font-bold`} />
+                <input value={shot.style} onChange={(e) => updateShot(index, { style: e.target.value })} disabled={isRunning} placeholder={index === 0 ? "Art direction" : "Same as shot 1"} className={inputClass} />
+                <input value={shot.typographyPrompt} onChange={(e) => updateShot(index, { typographyPrompt: e.target.value })} disabled={isRunning} placeholder="Typography" className={inputClass} />
+                {shotProgress?.error && <p className="md:col-span-3 text-[10px] text-red-500">{shotProgress.error}</p>}
+              </div>
+              <div className="flex flex-col gap-1">
+                <button type="button" onClick={() => moveShot(index, -1)} disabled={isRunning || index === 0} className="p-1 text-stone-400 hover:text-stone-900 dark:hover:text-white disabled:opacity-30" title="Move up"><ChevronUp size={14} /></button>
+                <button type="button" onClick={() => moveShot(index, 1)} disabled={isRunning || index === shots.length - 1} className="p-1 text-stone-400 hover:text-stone-900 dark:hover:text-white disabled:opacity-30" title="Move down"><ChevronDown size={14} /></button>
+                <button type="button" onClick={() => removeShot(index)} disabled={isRunning || shots.length <= MIN_STORYBOARD_SHOTS} className="p-1 text-stone-400 hover:text-red-500 disabled:opacity-30" title="Remove shot"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-4">
+        <button type="button" onClick={() => setShots(prev => [...prev, createShot()])} disabled={isRunning || shots.length >= MAX_STORYBOARD_SHOTS} className="px-4 py-2 border border-dashed border-stone-300 dark:border-zinc-700 text-stone-500 dark:text-zinc-400 text-xs font-medium rounded-lg flex items-center gap-1.5 hover:bg-stone-50 dark:hover:bg-zinc-800 disabled:opacity-40">
+          <Plus size={12} /> Add shot
+        </button>
+        <div className="flex-1" />
+        {sequenceUrl && (
+          <button type="button" onClick={handleDownload} className="px-4 py-2 border border-stone-200 dark:border-zinc-700 text-stone-900 dark:text-stone-200 text-xs font-bold rounded-lg flex items-center gap-1.5">
+            <Download size={12} /> Download sequence
+          </button>
+        )}
+        <button type="button" onClick={handleGenerate} disabled={!canGenerate} className="px-5 py-2 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-xs font-bold rounded-lg flex items-center gap-1.5 disabled:opacity-50">
+          {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} className="fill-current" />}
+          {stitchProgress !== null ? `Stitching ${Math.round(stitchProgress * 100)}%` : progress.some(p => p?.status === 'done') && !sequenceUrl ? 'Resume' : 'Generate sequence'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500 dark:text-red-400 mt-3">{error}</p>}
+
+      {sequenceUrl && (
+        <div className={`mt-6 mx-auto rounded-2xl overflow-hidden shadow-2xl bg-black ${defaults.format.aspectRatio === '16:9' ? 'w-full' : 'h-[50vh]'} ${getPreviewAspectClass(defaults.format.aspectRatio)}`}>
+          <video src={sequenceUrl} autoPlay loop playsInline controls className="w-full h-full object-cover" />
+        </div>
+      )}
+    </div>
+  );
+};
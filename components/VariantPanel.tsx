@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { AnimationOptions, OutputFormat } from '../types';
+import { BatchItem, BatchQueue } from '../services/batchQueue';
+import { MAX_VARIANTS, MIN_VARIANTS, planVariants, VARIANT_SOURCES, VariantSource } from '../services/variants';
+import { listPresets } from '../services/presets';
+import { updateCreation } from '../services/historyStore';
+import { describeError } from '../services/errors';
+import { createZipBlob, getPreviewAspectClass, imageFileExtension, slugify, triggerDownload, videoFileExtension } from '../utils';
+import { AlertTriangle, ArrowLeft, Columns3, Crown, Download, Loader2, Pause, Play, RotateCcw, Sparkles, Star } from 'lucide-react';
+
+interface VariantPanelProps {
+  queue: BatchQueue;
+  defaults: {
+    text: string;
+    style: string;
+    typographyPrompt: string;
+    referenceImage: string | null;
+    format: OutputFormat;
+    animation: AnimationOptions;
+  };
+  onClose: () => void;
+  ensureKey: () => Promise<boolean>;
+  onPromote: (item: BatchItem) => void;
+}
+
+// Followers further than this from the clock are seeked back into step
+const SYNC_TOLERANCE_S = 0.08;
+
+// The longest clip is the clock: the others follow it, hold their last frame if shorter, and everything restarts together
+const useSyncedPlayback = (videos: React.MutableRefObject<Map<string, HTMLVideoElement>>, isPlaying: boolean, clipKey: string) => {
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    const all = () => [...videos.current.values()];
+    if (!isPlaying) {
+      all().forEach(v => v.pause());
+      return;
+    }
+    let frame = 0;
+    const tick = () => {
+      const clips = all().filter(v => v.readyState >= 1);
+      const leader = clips.reduce<HTMLVideoElement | undefined>((longest, v) => !longest || v.duration > longest.duration ? v : longest, undefined);
+      if (leader) {
+        if (leader.ended) {
+          clips.forEach(v => { v.currentTime = 0; });
+          leader.play().catch(() => {});
+        } else if (leader.paused) {
+          leader.play().catch(() => {});
+        }
+        clips.forEach(v => {
+          if (v === leader) return;
+          const target = Math.min(leader.currentTime, v.duration);
+          if (Math.abs(v.currentTime - target) > SYNC_TOLERANCE_S) v.currentTime = target;
+          if (v.paused && target < v.duration) v.play().catch(() => {});
+        });
+        setDuration(leader.duration);
+        setTime(leader.currentTime);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [videos, isPlaying, clipKey]);
+
+  const seek = (value: number) => {
+    videos.current.forEach(v => { v.currentTime = Math.min(value, v.duration || value); });
+    setTime(value);
+  };
+
+  return { time, duration, seek };
+};
+
+export const VariantPanel: React.FC<VariantPanelProps> = ({ queue, defaults, onClose, ensureKey, onPromote }) => {
+  const snapshot = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  const [source, setSource] = useState<VariantSource>('random-styles');
+  const [count, setCount] = useState(4);
+  const [typographyIds, setTypographyIds] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const videoRefs = useRef(new Map<string, HTMLVideoElement>());
+
+  const { items, isRunning } = snapshot;
+  const finished = items.filter(i => i.status === 'done' && i.videoUrl);
+  const clipKey = finished.map(i => i.id).join();
+  const { time, duration, seek } = useSyncedPlayback(videoRefs, isPlaying, clipKey);
+  const typographyPresets = listPresets('typography');
+
+  // Everything restarts from the top when a clip joins, so new arrivals are never out of step
+  useEffect(() => {
+    seek(0);
+  }, [clipKey]);
+
+  const handleGenerate = async () => {
+    if (!defaults.text.trim()) return;
+    setError(null);
+    if (!(await ensureKey())) return;
+    setIsPlanning(true);
+    try {
+      const plan = await planVariants({ text: defaults.text, source, count, style: defaults.style, typographyPrompt: defaults.typographyPrompt, typographyIds });
+      queue.clear();
+      setSelected([]);
+      setRatings({});
+      queue.add(plan.map(variant => ({
+        text: defaults.text,
+        ...variant,
+        referenceImage: defaults.referenceImage || undefined,
+        format: defaults.format,
+        // Every variant would need its own second keyframe, so transitions are compared as reveals
+        animation: defaults.animation.mode === 'transition' ? { mode: 'reveal' } : defaults.animation
+      })));
+      queue.start();
+    } catch (e) {
+      setError(describeError(e).message);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const rate = (item: BatchItem, rating: number) => {
+    const next = ratings[item.id] === rating ? 0 : rating;
+    setRatings(prev => ({ ...prev, [item.id]: next }));
+    if (item.creationId) {
+      updateCreation(item.creationId, { rating: next || undefined }).catch(e => console.warn("Could not save rating", e));
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  const toggleTypography = (id: string) =>
+    setTypographyIds(prev => prev.includes(id) ? prev.filter(t => t !== id) : prev.length < MAX_VARIANTS ? [...prev, id] : prev);
+
+  const handleExport = async () => {
+    const chosen = finished.filter(i => selected.includes(i.id));
+    setIsZipping(true);
+    try {
+      const entries = await Promise.all(chosen.map(async (item, idx) => {
+        const base = `${String(idx + 1).padStart(2, '0')}-${slugify(item.label || item.style || item.text)}`;
+        const video = await (await fetch(item.videoUrl!)).blob();
+        const files = [{ name: `${base}.${videoFileExtension(video.type)}`, data: video as Blob }];
+        if (item.imageSrc) {
+          const image = await (await fetch(item.imageSrc)).blob();
+          files.push({ name: `${base}.${imageFileExtension(image.type)}`, data: image });
+        }
+        return files;
+      }));
+      const manifest = chosen.map(({ id, text, label, style, typographyPrompt }) => ({ text, label, style, typographyPrompt, rating: ratings[id] || undefined }));
+      const zip = await createZipBlob([...entries.flat(), { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) }]);
+      const url = URL.createObjectURL(zip);
+      triggerDownload(url, `typemotion-variants-${slugify(defaults.text)}.zip`);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Variant export failed", e);
+      setError("Could not bundle the selected variants.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const sourceInfo = VARIANT_SOURCES.find(s => s.id === source)!;
+  const canGenerate = !!defaults.text.trim() && !isRunning && !isPlanning && (source !== 'typography' || typographyIds.length >= MIN_VARIANTS);
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 md:p-8 bg-white dark:bg-zinc-950">
+      <div className="flex items-center justify-between mb-6 mr-12">
+        <h2 className="text-2xl font-bold text-stone-900 dark:text-white flex items-center gap-2">
+          <Columns3 size={22} /> Compare Variants
+        </h2>
+        <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-zinc-800 rounded-xl transition-all font-bold text-xs uppercase tracking-wide">
+          <ArrowLeft size={14} /> Back
+        </button>
+      </div>
+
+      <div className="space-y-4 mb-6">
+        <p className="text-sm text-stone-600 dark:text-stone-300">
+          <span className="font-bold text-stone-900 dark:text-white whitespace-pre-line">{defaults.text.trim() || 'Enter some text in the create form first.'}</span>
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {VARIANT_SOURCES.map(s => (
+            <button key={s.id} type="button" onClick={() => setSource(s.id)} aria-pressed={source === s.id} className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-lg border transition-colors ${source === s.id ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 border-transparent' : 'bg-stone-50 dark:bg-zinc-900 border-stone-200 dark:border-zinc-800 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-white'}`}>{s.label}</button>
+          ))}
+          {source !== 'typography' && (
+            <label className="flex items-center gap-2 ml-2 text-xs text-stone-500 dark:text-stone-400">
+              Variants
+              <input type="range" min={MIN_VARIANTS} max={MAX_VARIANTS} value={count} onChange={(e) => setCount(Number(e.target.value))} className="accent-stone-900 dark:accent-stone-100" />
+              <span className="tabular-nums font-bold text-stone-900 dark:text-white">{count}</span>
+            </label>
+          )}
+        </div>
+        <p className="text-[10px] text-stone-400 dark:text-zinc-500">{sourceInfo.description}</p>
+        {source === 'typography' && (
+          <div className="flex flex-wrap gap-1.5" aria-label="Typography presets to compare">
+            {typographyPresets.map(preset => (
+              <button key={preset.id} type="button" onClick={() => toggleTypography(preset.id)} aria-pressed={typographyIds.includes(preset.id)} title={preset.prompt} className={`px-2.5 py-1 text-[10px] font-medium rounded-md border transition-colors ${typographyIds.includes(preset.id) ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 border-transparent' : 'bg-stone-100 dark:bg-zinc-800 text-stone-600 dark:text-stone-300 border-stone-200 dark:border-zinc-700'}`}>{preset.label}</button>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={handleGenerate} disabled={!canGenerate} className="px-4 py-2 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-xs font-bold rounded-lg flex items-center gap-1.5 disabled:opacity-50">
+            {isPlanning || isRunning ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} Generate variants
+          </button>
+          <button type="button" onClick={queue.retryFailed} disabled={!items.some(i => i.status === 'error')} className="py-2 px-3 border border-stone-200 dark:border-zinc-700 text-stone-500 dark:text-stone-400 rounded-lg disabled:opacity-40" title="Retry failed">
+            <RotateCcw size={12} />
+          </button>
+          <button type="button" onClick={handleExport} disabled={!selected.length || isZipping} className="ml-auto px-4 py-2 border border-stone-200 dark:border-zinc-700 text-stone-900 dark:text-stone-200 text-xs font-bold rounded-lg flex items-center gap-1.5 disabled:opacity-40">
+            {isZipping ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />} Export selected ({selected.length})
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+      </div>
+
+      {finished.length > 1 && (
+        <div className="flex items-center gap-3 mb-4">
+          <button type="button" onClick={() => setIsPlaying(p => !p)} className="p-2 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-full" aria-label={isPlaying ? 'Pause all' : 'Play all'}>
+            {isPlaying ? <Pause size={12} /> : <Play size={12} className="fill-current" />}
+          </button>
+          <input type="range" min={0} max={duration || 0} step={0.01} value={Math.min(time, duration || 0)} onChange={(e) => seek(Number(e.target.value))} className="flex-1 accent-stone-900 dark:accent-stone-100" aria-label="Scrub all clips" />
+          <span className="text-[10px] tabular-nums text-stone-400 dark:text-zinc-500 w-16 text-right">{time.toFixed(1)} / {(duration || 0).toFixed(1)}s</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {items.map(item => (
+          <div key={item.id} className={`rounded-xl border overflow-hidden bg-stone-50 dark:bg-zinc-900 flex flex-col ${selected.includes(item.id) ? 'border-stone-900 dark:border-stone-100' : 'border-stone-200 dark:border-zinc-800'}`}>
+            <div className={`relative bg-stone-200 dark:bg-zinc-800 ${getPreviewAspectClass(defaults.format.aspectRatio)}`}>
+              {item.videoUrl ? (
+                <video
+                  ref={(el) => { if (el) videoRefs.current.set(item.id, el); else videoRefs.current.delete(item.id); }}
+                  src={item.videoUrl}
+                  muted
+                  playsInline
+                  preload="auto"
+                  className="w-full h-full object-cover"
+                />
+              ) : item.imageSrc && <img src={item.imageSrc} alt={item.label || item.text} className="w-full h-full object-cover" />}
+              {(item.status === 'queued' || item.status === 'generating-image' || item.status === 'generating-video') && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/30 text-white"><Loader2 size={18} className="animate-spin" /></div>
+              )}
+              {item.status === 'error' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-3 text-center bg-black/50 text-white text-xs">
+                  <AlertTriangle size={16} /> {item.error}
+                  <button type="button" onClick={() => queue.retry(item.id)} className="font-bold underline">Retry</button>
+                </div>
+              )}
+              {item.status === 'done' && (
+                <label className="absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 bg-black/60 text-white text-[10px] font-bold rounded cursor-pointer">
+                  <input type="checkbox" checked={selected.includes(item.id)} onChange={() => toggleSelected(item.id)} className="accent-white" /> Export
+                </label>
+              )}
+            </div>
+            <div className="p-3 flex-1 flex flex-col gap-1">
+              <p className="font-bold text-sm text-stone-900 dark:text-white truncate">{item.label || item.style}</p>
+              <p className="text-xs text-stone-500 dark:text-stone-400 line-clamp-2" title={`${item.style}\n${item.typographyPrompt || ''}`}>{source === 'typography' ? item.typographyPrompt : item.style}</p>
+            </div>
+            <div className="flex items-center border-t border-stone-200 dark:border-zinc-800 px-2">
+              <div className="flex flex-1" role="radiogroup" aria-label={`Rate ${item.label || 'variant'}`}>
+                {[1, 2, 3, 4, 5].map(n => (
+                  <button key={n} type="button" role="radio" aria-checked={ratings[item.id] === n} onClick={() => rate(item, n)} disabled={item.status !== 'done'} className="p-1.5 text-amber-500 disabled:opacity-30" aria-label={`${n} star${n > 1 ? 's' : ''}`}>
+                    <Star size={12} className={(ratings[item.id] || 0) >= n ? 'fill-current' : ''} />
+                  </button>
+                ))}
+              </div>
+              <button type="button" onClick={() => onPromote(item)} disabled={item.status !== 'done'} className="py-2 px-2 flex items-center gap-1 text-xs font-bold text-stone-600 dark:text-stone-300 hover:text-stone-900 dark:hover:text-white disabled:opacity-40" title="Make this the main result and use its look in the form">
+                <Crown size={12} /> Use this
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
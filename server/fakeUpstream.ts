@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { headlessProvider } from '../services/providers/headlessProvider';
+import { AspectRatio } from '../types';
+
+// A stand-in for the Gemini REST API, enough of it for the SDK calls geminiProvider makes, so the proxy
+// can be exercised without a key or network. Images and clips come from the headless provider.
+// Prompts containing FAKE_BLOCK are refused as unsafe; requests without the expected key in
+// the x-goog-api-key header get a 403.
+
+const BLOCK_MARKER = 'FAKE_BLOCK';
+
+const port = Number(process.env.FAKE_UPSTREAM_PORT) || 8788;
+const expectedKey = process.env.FAKE_UPSTREAM_KEY || 'fake-key';
+const origin = `http://127.0.0.1:${port}`;
+
+// Fake operation ids to the headless provider's job names
+const operations = new Map<string, string>();
+let operationCounter = 0;
+
+const readJson = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Same envelope as Google APIs so the SDK surfaces the status and message
+const sendError = (res: ServerResponse, code: number, status: string, message: string) =>
+  sendJson(res, code, { error: { code, message, status } });
+
+const collectParts = (contents: any): any[] =>
+  (Array.isArray(contents) ? contents : [contents]).flatMap((content: any) => content?.parts || []);
+
+const generateContent = async (model: string, body: any) => {
+  const parts = collectParts(body.contents);
+  const prompt = parts.map(part => part.text || '').join('\n');
+  if (prompt.includes(BLOCK_MARKER)) {
+    return { promptFeedback: { blockReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', blocked: true }] } };
+  }
+
+  const images = parts.filter(part => part.inlineData).map(part => ({ data: part.inlineData.data, mimeType: part.inlineData.mimeType }));
+  let part: any;
+  if (model.includes('image')) {
+    const imageConfig = body.generationConfig?.imageConfig || {};
+    const image = await headlessProvider.generateImage({
+      prompt,
+      referenceImage: images[0],
+      aspectRatio: (imageConfig.aspectRatio || '16:9') as AspectRatio,
+      imageSize: imageConfig.imageSize === '2K' ? '2K' : '1K',
+      text: '',
+      style: prompt
+    });
+    part = { inlineData: image };
+  } else if (images.length) {
+    part = { text: await headlessProvider.readImageText(prompt, images[0]) };
+  } else {
+    part = { text: await headlessProvider.suggestStyle(prompt, prompt) };
+  }
+  return { candidates: [{ content: { role: 'model', parts: [part] }, finishReason: 'STOP' }] };
+};
+
+const startVideo = async (model: string, body: any) => {
+  const instance = body.instances?.[0] || {};
+  const toImage = (image: any) => image ? { data: image.bytesBase64Encoded, mimeType: image.mimeType } : undefined;
+  const job = await headlessProvider.startVideo({
+    prompt: instance.prompt || '',
+    firstFrame: toImage(instance.image)!,
+    lastFrame: toImage(instance.lastFrame),
+    text: '',
+    aspectRatio: body.parameters?.aspectRatio === '9:16' ? '9:16' : '16:9',
+    resolution: body.parameters?.resolution === '1080p' ? '1080p' : '720p'
+  });
+  const id = `fake${++operationCounter}`;
+  operations.set(id, job.name);
+  return { name: `models/${model}/operations/${id}` };
+};
+
+const pollVideo = async (name: string, id: string) => {
+  const jobName = operations.get(id);
+  if (!jobName) return undefined;
+  const job = await headlessProvider.pollVideo({ name: jobName, done: false });
+  if (job.error) return { name, done: true, error: { code: 13, message: job.error } };
+  if (!job.done) return { name, done: false };
+  return {
+    name,
+    done: true,
+    response: { generateVideoResponse: { generatedSamples: [{ video: { uri: `${origin}/v1beta/files/${id}:download?alt=media` } }] } }
+  };
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', origin);
+  if (req.headers['x-goog-api-key'] !== expectedKey) {
+    return sendError(res, 403, 'PERMISSION_DENIED', 'API key not valid. Please pass a valid API key.');
+  }
+
+  try {
+    let match: RegExpMatchArray | null;
+    if (req.method === 'POST' && (match = url.pathname.match(/^\/v1beta\/models\/([^/:]+):generateContent$/))) {
+      return sendJson(res, 200, await generateContent(match[1], await readJson(req)));
+    }
+    if (req.method === 'POST' && (match = url.pathname.match(/^\/v1beta\/models\/([^/:]+):predictLongRunning$/))) {
+      return sendJson(res, 200, await startVideo(match[1], await readJson(req)));
+    }
+    if (req.method === 'GET' && (match = url.pathname.match(/^\/v1beta\/(models\/[^/]+\/operations\/([^/]+))$/))) {
+      const operation = await pollVideo(match[1], match[2]);
+      return operation ? sendJson(res, 200, operation) : sendError(res, 404, 'NOT_FOUND', 'Operation not found.');
+    }
+    if (req.method === 'GET' && (match = url.pathname.match(/^\/v1beta\/files\/([^/:]+):download$/))) {
+      const jobName = operations.get(match[1]);
+      const blob = jobName ? await headlessProvider.fetchVideo(`local://${jobName}`).catch(() => undefined) : undefined;
+      if (!blob) return sendError(res, 404, 'NOT_FOUND', 'File not found.');
+      res.writeHead(200, { 'Content-Type': 'image/apng', 'Content-Length': String(blob.size) });
+      return res.end(Buffer.from(await blob.arrayBuffer()));
+    }
+    sendError(res, 404, 'NOT_FOUND', `No fake for ${req.method} ${url.pathname}.`);
+  } catch (e: any) {
+    sendError(res, 500, 'INTERNAL', e?.message || String(e));
+  }
+});
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`fake-upstream listening on ${origin} (key "${expectedKey}")`);
+});
+const stop = () => server.close(() => process.exit(0));
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
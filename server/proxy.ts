@@ -0,0 +1,331 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { classifyError, GenerationError, GenerationErrorKind } from '../services/errors';
+import { geminiProvider } from '../services/providers/geminiProvider';
+import { ImageRequest, InlineImage, VideoOperation, VideoRequest } from '../services/providers/types';
+import { PROXY_ROUTES, ProxyErrorBody } from '../services/proxyApi';
+import { AspectRatio } from '../types';
+import { createRateLimiter, parseRateLimits, RateLimitKind } from './rateLimit';
+
+// Holds the Gemini API key so browsers never see it. The app calls these routes through the proxy
+// provider when built with TYPEMOTION_PROXY_URL; every route is rate limited per user.
+
+const MAX_BODY_BYTES = 40 * 1024 * 1024; // Two 2K keyframes as base64 with room to spare
+const MAX_TRACKED_VIDEOS = 10000;
+const DEFAULT_UPSTREAM = 'https://generativelanguage.googleapis.com';
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1'];
+
+interface ProxyConfig {
+  apiKey: string;
+  upstream: string;
+  host: string;
+  port: number;
+  allowedOrigins: string[];
+  tokens: Map<string, string>; // Token to user name; empty means users are told apart by address
+  trustForwarded: boolean;
+}
+
+class HttpError extends Error {
+  status: number;
+  kind: GenerationErrorKind;
+  retryAfterSeconds?: number;
+
+  constructor(status: number, kind: GenerationErrorKind, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.status = status;
+    this.kind = kind;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const list = (value: string | undefined) => (value || '').split(',').map(s => s.trim()).filter(Boolean);
+
+const readConfig = (): ProxyConfig => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) throw new Error("Set GEMINI_API_KEY for the proxy to use.");
+  const tokens = new Map<string, string>();
+  for (const entry of list(process.env.TYPEMOTION_PROXY_TOKENS)) {
+    const separator = entry.indexOf(':');
+    if (separator < 1 || separator === entry.length - 1) throw new Error(`Invalid token entry "${entry}". Use user:token.`);
+    tokens.set(entry.slice(separator + 1), entry.slice(0, separator));
+  }
+  return {
+    apiKey,
+    upstream: process.env.GEMINI_BASE_URL || DEFAULT_UPSTREAM,
+    host: process.env.TYPEMOTION_PROXY_HOST || '127.0.0.1',
+    port: Number(process.env.TYPEMOTION_PROXY_PORT) || 8787,
+    allowedOrigins: list(process.env.TYPEMOTION_ALLOWED_ORIGINS || 'http://localhost:3000'),
+    tokens,
+    trustForwarded: process.env.TYPEMOTION_TRUST_FORWARDED === '1'
+  };
+};
+
+// Upstream auth failures are the operator's problem, so the browser shouldn't offer its key picker
+const STATUS_BY_KIND: Record<GenerationErrorKind, number> = {
+  'auth': 502,
+  'quota': 429,
+  'rate-limit': 429,
+  'safety': 422,
+  'timeout': 504,
+  'network': 502,
+  'empty-output': 502,
+  'cancelled': 499,
+  'expired': 410,
+  'unknown': 500
+};
+
+const toHttpError = (e: unknown): HttpError & { category?: string } => {
+  if (e instanceof HttpError) return e;
+  const error: GenerationError = classifyError(e);
+  const upstreamAuth = error.kind === 'auth';
+  const result: HttpError & { category?: string } = new HttpError(
+    STATUS_BY_KIND[error.kind],
+    upstreamAuth ? 'unknown' : error.kind,
+    upstreamAuth ? "The proxy's API key was rejected by the generation service." : error.message
+  );
+  result.category = error.category;
+  return result;
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'unknown', "Request body is too large.");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'unknown', "Request body is not valid JSON.");
+  }
+};
+
+// Request bodies are untrusted JSON, so fields are read as unknown and narrowed
+const getField = (body: unknown, field: string): unknown =>
+  body && typeof body === 'object' ? (body as Record<string, unknown>)[field] : undefined;
+
+const isInlineImage = (value: unknown): value is InlineImage =>
+  typeof getField(value, 'data') === 'string' && typeof getField(value, 'mimeType') === 'string';
+
+const requireString = (body: unknown, field: string): string => {
+  const value = getField(body, field);
+  if (typeof value !== 'string') throw new HttpError(400, 'unknown', `"${field}" must be a string.`);
+  return value;
+};
+
+const requireAspectRatio = (body: unknown): AspectRatio => {
+  const value = getField(body, 'aspectRatio');
+  if (!ASPECT_RATIOS.includes(value as AspectRatio)) {
+    throw new HttpError(400, 'unknown', `"aspectRatio" must be one of ${ASPECT_RATIOS.join(', ')}.`);
+  }
+  return value as AspectRatio;
+};
+
+const requireImage = (body: unknown, field: string, optional = false): InlineImage | undefined => {
+  const value = getField(body, field);
+  if (value === undefined && optional) return undefined;
+  if (!isInlineImage(value)) throw new HttpError(400, 'unknown', `"${field}" must be an image with data and mimeType.`);
+  return { data: value.data, mimeType: value.mimeType };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, e: unknown) => {
+  const error = toHttpError(e);
+  // The operator sees the upstream message even where the browser gets a gentler one
+  if (error.status >= 500) console.error(`typemotion-proxy: ${e instanceof Error ? e.message : error.message}`);
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  if (error.retryAfterSeconds) res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  const body: ProxyErrorBody = { error: { kind: error.kind, message: error.message, category: error.category, retryAfterSeconds: error.retryAfterSeconds } };
+  sendJson(res, error.status, body);
+};
+
+const createProxyServer = (config: ProxyConfig) => {
+  const limits = parseRateLimits(process.env.TYPEMOTION_RATE_LIMITS);
+  const limiter = createRateLimiter(limits);
+  // Operations each user started and the video URIs they were handed. Polls and downloads of anything else
+  // are refused, so one user can't read another's videos and the key can't fetch arbitrary URLs.
+  const operationOwners = new Map<string, string>();
+  const issuedVideos = new Map<string, string>();
+  const upstreamOrigin = new URL(config.upstream).origin;
+
+  const identify = (req: IncomingMessage): string => {
+    if (config.tokens.size) {
+      const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+      const user = token ? config.tokens.get(token) : undefined;
+      if (!user) throw new HttpError(401, 'auth', "This proxy needs a valid access token.");
+      return user;
+    }
+    const forwarded = config.trustForwarded ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+  };
+
+  const limit = (user: string, kind: RateLimitKind) => {
+    const retryAfterSeconds = limiter.take(user, kind);
+    if (retryAfterSeconds) {
+      throw new HttpError(429, 'rate-limit', `Too many ${kind} requests. Try again in ${retryAfterSeconds}s.`, retryAfterSeconds);
+    }
+  };
+
+  // The first owner stays; Maps keep insertion order, so the oldest entries go first
+  const recordOwner = (owners: Map<string, string>, key: string, user: string) => {
+    if (owners.has(key)) return;
+    owners.set(key, user);
+    if (owners.size > MAX_TRACKED_VIDEOS) owners.delete(owners.keys().next().value!);
+  };
+
+  const rememberVideo = (user: string, operation: VideoOperation) => {
+    if (operation.videoUri) recordOwner(issuedVideos, operation.videoUri, user);
+    return operation;
+  };
+
+  const streamVideo = async (res: ServerResponse, user: string, uri: string) => {
+    if (issuedVideos.get(uri) !== user || new URL(uri).origin !== upstreamOrigin) {
+      throw new HttpError(404, 'unknown', "Unknown video.");
+    }
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+    // The key goes in a header rather than the query string so it stays out of upstream URL logs
+    const upstream = await fetch(uri, { headers: { 'x-goog-api-key': config.apiKey }, signal: abort.signal });
+    if (!upstream.ok || !upstream.body) {
+      throw Object.assign(new Error(`Failed to fetch video content (${upstream.status}): ${upstream.statusText}`), { status: upstream.status });
+    }
+    const headers: Record<string, string> = { 'Content-Type': upstream.headers.get('content-type') || 'video/mp4' };
+    const length = upstream.headers.get('content-length');
+    if (length) headers['Content-Length'] = length;
+    res.writeHead(200, headers);
+    // fetch's body is the DOM stream type; Node's fetch returns its own web stream, which is what fromWeb takes
+    Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>).on('error', () => res.destroy()).pipe(res);
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const key = `${req.method} ${url.pathname}`;
+    if (key === `GET ${PROXY_ROUTES.health}`) {
+      return sendJson(res, 200, { ok: true, models: geminiProvider.models, limits });
+    }
+
+    const user = identify(req);
+    switch (key) {
+      case `POST ${PROXY_ROUTES.style}`: {
+        limit(user, 'text');
+        const body = await readJson(req);
+        const text = await geminiProvider.suggestStyle(requireString(body, 'prompt'), requireString(body, 'text'));
+        return sendJson(res, 200, { text });
+      }
+      case `POST ${PROXY_ROUTES.readText}`: {
+        limit(user, 'text');
+        const body = await readJson(req);
+        const text = await geminiProvider.readImageText(requireString(body, 'prompt'), requireImage(body, 'image')!);
+        return sendJson(res, 200, { text });
+      }
+      case `POST ${PROXY_ROUTES.image}`: {
+        limit(user, 'image');
+        const body = await readJson(req);
+        const request: ImageRequest = {
+          prompt: requireString(body, 'prompt'),
+          referenceImage: requireImage(body, 'referenceImage', true),
+          guideImage: requireImage(body, 'guideImage', true),
+          aspectRatio: requireAspectRatio(body),
+          imageSize: getField(body, 'imageSize') === '2K' ? '2K' : '1K',
+          text: requireString(body, 'text'),
+          style: requireString(body, 'style')
+        };
+        return sendJson(res, 200, await geminiProvider.generateImage(request));
+      }
+      case `POST ${PROXY_ROUTES.video}`: {
+        limit(user, 'video');
+        const body = await readJson(req);
+        const request: VideoRequest = {
+          prompt: requireString(body, 'prompt'),
+          firstFrame: requireImage(body, 'firstFrame')!,
+          lastFrame: requireImage(body, 'lastFrame', true),
+          text: requireString(body, 'text'),
+          aspectRatio: getField(body, 'aspectRatio') === '9:16' ? '9:16' : '16:9',
+          resolution: getField(body, 'resolution') === '1080p' ? '1080p' : '720p'
+        };
+        const operation = await geminiProvider.startVideo(request);
+        recordOwner(operationOwners, operation.name, user);
+        return sendJson(res, 200, rememberVideo(user, operation));
+      }
+      case `GET ${PROXY_ROUTES.videoOperation}`: {
+        limit(user, 'poll');
+        const name = url.searchParams.get('name') || '';
+        if (!/^[\w.\-/]+\/operations\/[\w.\-]+$/.test(name)) throw new HttpError(400, 'unknown', "Invalid operation name.");
+        // Owners only live in memory, so after a restart the client is told to give up rather than poll forever
+        if (operationOwners.get(name) !== user) {
+          throw new HttpError(410, 'expired', "The proxy has no record of this video for you, most likely because it restarted. Generate it again.");
+        }
+        return sendJson(res, 200, rememberVideo(user, await geminiProvider.pollVideo({ name, done: false })));
+      }
+      case `GET ${PROXY_ROUTES.videoDownload}`: {
+        limit(user, 'download');
+        return streamVideo(res, user, url.searchParams.get('uri') || '');
+      }
+      default:
+        throw new HttpError(404, 'unknown', `No route for ${key}.`);
+    }
+  };
+
+  const server = createServer(async (req, res) => {
+    const origin = req.headers.origin;
+    if (origin && config.allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+        'Access-Control-Max-Age': '600'
+      });
+      return res.end();
+    }
+    try {
+      await route(req, res, new URL(req.url || '/', 'http://proxy'));
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+
+  const pruneTimer = setInterval(() => limiter.prune(), 60000);
+  pruneTimer.unref();
+  return server;
+};
+
+const main = () => {
+  const config = readConfig();
+  // geminiProvider reads these at call time
+  process.env.API_KEY = config.apiKey;
+  process.env.GEMINI_BASE_URL = config.upstream;
+
+  const server = createProxyServer(config);
+  server.listen(config.port, config.host, () => {
+    const users = config.tokens.size ? `${config.tokens.size} token user(s)` : 'users by address';
+    console.log(`typemotion-proxy listening on http://${config.host}:${config.port} (upstream ${config.upstream}, ${users})`);
+  });
+  const stop = () => server.close(() => process.exit(0));
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+};
+
+try {
+  main();
+} catch (e) {
+  console.error(`typemotion-proxy: ${e instanceof Error ? e.message : e}`);
+  process.exit(2);
+}
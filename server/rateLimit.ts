@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Per-user token buckets: each user gets `perMinute` requests of a kind, refilled continuously.
+
+export type RateLimitKind = 'text' | 'image' | 'video' | 'poll' | 'download';
+
+export type RateLimits = Record<RateLimitKind, number>;
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  text: 30,
+  image: 20,
+  video: 5,
+  poll: 120, // Clients poll every few seconds per running video
+  download: 20
+};
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// "image=10,video=2" overrides those kinds and keeps the defaults for the rest
+export const parseRateLimits = (spec: string | undefined): RateLimits => {
+  const limits = { ...DEFAULT_RATE_LIMITS };
+  for (const entry of (spec || '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const [kind, value] = entry.split('=').map(s => s.trim());
+    const perMinute = Number(value);
+    if (!Object.hasOwn(limits, kind) || !Number.isFinite(perMinute) || perMinute <= 0) {
+      throw new Error(`Invalid rate limit "${entry}". Use kind=requestsPerMinute with kind one of ${Object.keys(limits).join(', ')}.`);
+    }
+    limits[kind as RateLimitKind] = perMinute;
+  }
+  return limits;
+};
+
+export const createRateLimiter = (limits: RateLimits) => {
+  const buckets = new Map<string, Bucket>();
+
+  // Returns 0 when the request may go ahead, otherwise the seconds until it would
+  const take = (user: string, kind: RateLimitKind, now = Date.now()): number => {
+    const capacity = limits[kind];
+    const key = `${kind}:${user}`;
+    const bucket = buckets.get(key) || { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / 60000 * capacity);
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / capacity * 60);
+  };
+
+  // Full buckets carry no state worth keeping
+  const prune = (now = Date.now()) => {
+    for (const [key, bucket] of buckets) {
+      const capacity = limits[key.split(':')[0] as RateLimitKind];
+      if (bucket.tokens + (now - bucket.updatedAt) / 60000 * capacity >= capacity) buckets.delete(key);
+    }
+  };
+
+  return { take, prune };
+};
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Soundtrack choices for a clip. Like clip edits nothing is rendered until export, where the
+// music is mixed with Web Audio and recorded alongside the frames.
+
+export type AudioMode = 'original' | 'replace' | 'mix' | 'none';
+
+export interface MusicFile {
+  name: string;
+  blob: Blob;
+}
+
+export interface AudioTrack {
+  mode: AudioMode;
+  music: MusicFile | null;
+  musicVolume: number; // 0..1
+  originalVolume: number; // 0..1, mix only
+  fadeIn: number; // Seconds
+  fadeOut: number; // Seconds
+  offset: number; // Seconds into the music file where the clip starts
+}
+
+export const AUDIO_MODES: { id: AudioMode; label: string; description: string }[] = [
+  { id: 'original', label: 'Original', description: 'Keep the audio the video model generated.' },
+  { id: 'replace', label: 'Replace', description: 'Use your music file instead.' },
+  { id: 'mix', label: 'Mix', description: 'Play your music under the generated audio.' },
+  { id: 'none', label: 'Silent', description: 'Export without any audio.' }
+];
+
+export const FADE_OPTIONS = [0, 0.5, 1, 2];
+
+export const MUSIC_FILE_ACCEPT = 'audio/*,.mp3,.wav,.ogg,.m4a,.aac,.flac';
+
+export const DEFAULT_AUDIO_TRACK: AudioTrack = {
+  mode: 'original',
+  music: null,
+  musicVolume: 0.8,
+  originalVolume: 0.6,
+  fadeIn: 0.5,
+  fadeOut: 1,
+  offset: 0
+};
+
+export const needsMusic = (mode: AudioMode) => mode === 'replace' || mode === 'mix';
+
+// Anything but the untouched original means the file has to be re-encoded; music modes without a file keep the original
+export const isOriginalAudio = (track: AudioTrack) => track.mode === 'original' || (needsMusic(track.mode) && !track.music);
+
+// Music level at `time` seconds into a clip of `duration`, with the fades shortened to fit short clips
+export const musicGainAt = (track: Pick<AudioTrack, 'musicVolume' | 'fadeIn' | 'fadeOut'>, time: number, duration: number): number => {
+  const fadeIn = Math.min(track.fadeIn, duration / 2);
+  const fadeOut = Math.min(track.fadeOut, duration / 2);
+  let gain = 1;
+  if (fadeIn > 0 && time < fadeIn) gain = Math.max(0, time / fadeIn);
+  if (fadeOut > 0 && time > duration - fadeOut) gain = Math.min(gain, Math.max(0, (duration - time) / fadeOut));
+  return gain * track.musicVolume;
+};
+
+export interface AudioMix {
+  tracks: MediaStreamTrack[];
+  start: () => void; // Call when recording starts so the fades line up with the frames
+  close: () => void;
+}
+
+// Routes the clip's own audio (mix only) and the music through one Web Audio graph into a stream track.
+// `includeOriginal` is false when the frames aren't played in order (reverse, ping-pong), whose audio would be garbled.
+export const createAudioMix = async (video: HTMLVideoElement, track: AudioTrack, { duration, includeOriginal }: { duration: number; includeOriginal: boolean }): Promise<AudioMix> => {
+  const ctx = new AudioContext();
+  let destination: MediaStreamAudioDestinationNode;
+  let music: AudioBufferSourceNode | null = null;
+  let musicGain: GainNode | null = null;
+  // Nothing holds the context until the mix is returned, so a bad music file must not leak it. The music is
+  // decoded first so a failure leaves the video element untouched.
+  try {
+    await ctx.resume();
+    destination = ctx.createMediaStreamDestination();
+
+    if (needsMusic(track.mode) && track.music) {
+      const buffer = await ctx.decodeAudioData(await track.music.blob.arrayBuffer());
+      music = ctx.createBufferSource();
+      music.buffer = buffer;
+      musicGain = ctx.createGain();
+      music.connect(musicGain).connect(destination);
+    }
+
+    if (track.mode === 'mix' && includeOriginal) {
+      const original = ctx.createMediaElementSource(video);
+      const gain = ctx.createGain();
+      gain.gain.value = track.originalVolume;
+      original.connect(gain).connect(destination);
+      // A muted element feeds silence into the graph; unmuted it still only plays into the recording
+      video.muted = false;
+    }
+  } catch (e) {
+    ctx.close().catch(() => {});
+    throw e;
+  }
+
+  return {
+    tracks: destination.stream.getAudioTracks(),
+    start: () => {
+      if (!music || !musicGain) return;
+      const now = ctx.currentTime;
+      const fadeIn = Math.min(track.fadeIn, duration / 2);
+      const fadeOut = Math.min(track.fadeOut, duration / 2);
+      musicGain.gain.setValueAtTime(fadeIn > 0 ? 0 : track.musicVolume, now);
+      musicGain.gain.linearRampToValueAtTime(track.musicVolume, now + fadeIn);
+      musicGain.gain.setValueAtTime(track.musicVolume, now + duration - fadeOut);
+      musicGain.gain.linearRampToValueAtTime(0, now + duration);
+      music.start(now, Math.min(Math.max(0, track.offset), music.buffer!.duration));
+      music.stop(now + duration);
+    },
+    close: () => {
+      try {
+        music?.stop();
+      } catch (e) {
+        // Never started
+      }
+      ctx.close().catch(() => {});
+    }
+  };
+};
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { generateTextImage, generateTextVideo, resolveStyle, templateSnapshotsFor } from "./geminiService";
+import { createCreationId, saveCreation, updateCreation } from "./historyStore";
+import { getProvider } from "./providers";
+import { AnimationOptions, OutputFormat } from "../types";
+import { describeError } from "./errors";
+import { normalizeInputText } from "./textInput";
+
+export type BatchItemStatus = 'queued' | 'generating-image' | 'generating-video' | 'done' | 'error';
+
+export interface BatchItemInput {
+  text: string;
+  label?: string; // Shown instead of the style, e.g. the preset a variant was made from
+  style?: string;
+  typographyPrompt?: string;
+  referenceImage?: string; // Full Data URL
+  format?: OutputFormat;
+  animation?: AnimationOptions;
+}
+
+export interface BatchItem extends BatchItemInput {
+  id: string;
+  status: BatchItemStatus;
+  attempts: number;
+  creationId?: string; // History record, so later changes such as a rating can be saved to it
+  imageSrc?: string;
+  videoUrl?: string;
+  error?: string;
+}
+
+export interface BatchQueueSnapshot {
+  items: BatchItem[];
+  concurrency: number;
+  isPaused: boolean;
+  isRunning: boolean;
+}
+
+// The runner reports progress through `update` and resolves once the item has a video
+export type BatchItemRunner = (item: BatchItem, update: (changes: Partial<BatchItem>) => void) => Promise<void>;
+
+export interface BatchQueue {
+  getSnapshot: () => BatchQueueSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  add: (inputs: BatchItemInput[]) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+  retry: (id: string) => void;
+  retryFailed: () => void;
+  setConcurrency: (value: number) => void;
+  start: () => void;
+  pause: () => void;
+}
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+export const createBatchQueue = (runItem: BatchItemRunner, initialConcurrency = 2): BatchQueue => {
+  let items: BatchItem[] = [];
+  let concurrency = initialConcurrency;
+  let isPaused = true;
+  let inFlight = 0;
+  let idCounter = 0;
+  let snapshot: BatchQueueSnapshot = { items, concurrency, isPaused, isRunning: false };
+  const listeners = new Set<() => void>();
+
+  // Snapshots are immutable so React's useSyncExternalStore can compare them by reference
+  const emit = () => {
+    snapshot = { items, concurrency, isPaused, isRunning: inFlight > 0 };
+    listeners.forEach(listener => listener());
+  };
+
+  const patch = (id: string, changes: Partial<BatchItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+    emit();
+  };
+
+  const pump = () => {
+    while (!isPaused && inFlight < concurrency) {
+      const next = items.find(item => item.status === 'queued');
+      if (!next) break;
+      inFlight++;
+      patch(next.id, { status: 'generating-image', attempts: next.attempts + 1, error: undefined });
+      const current = items.find(item => item.id === next.id)!;
+      runItem(current, (changes) => patch(next.id, changes))
+        .then(() => patch(next.id, { status: 'done' }))
+        .catch((e: any) => patch(next.id, { status: 'error', error: describeError(e).message }))
+        .finally(() => {
+          inFlight--;
+          emit();
+          pump();
+        });
+    }
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    add: (inputs) => {
+      const added = inputs
+        .map(input => ({ ...input, text: normalizeInputText(input.text) }))
+        .filter(input => input.text)
+        .map(input => ({ ...input, id: `batch-${++idCounter}`, status: 'queued' as const, attempts: 0 }));
+      items = [...items, ...added];
+      emit();
+      pump();
+    },
+    remove: (id) => {
+      const item = items.find(i => i.id === id);
+      if (!item || item.status === 'generating-image' || item.status === 'generating-video') return;
+      if (item.videoUrl) URL.revokeObjectURL(item.videoUrl);
+      items = items.filter(i => i.id !== id);
+      emit();
+    },
+    clear: () => {
+      items.forEach(item => {
+        if (item.videoUrl && item.status === 'done') URL.revokeObjectURL(item.videoUrl);
+      });
+      items = items.filter(item => item.status === 'generating-image' || item.status === 'generating-video');
+      emit();
+    },
+    retry: (id) => {
+      patch(id, { status: 'queued', error: undefined });
+      pump();
+    },
+    retryFailed: () => {
+      items = items.map(item => item.status === 'error' ? { ...item, status: 'queued', error: undefined } : item);
+      emit();
+      pump();
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, Math.floor(value)));
+      emit();
+      pump();
+    },
+    start: () => {
+      isPaused = false;
+      emit();
+      pump();
+    },
+    // In-flight items finish; nothing new starts until start() is called again
+    pause: () => {
+      isPaused = true;
+      emit();
+    }
+  };
+};
+
+// Default runner: same pipeline as the single-item flow, and every result lands in history
+export const generateBatchItem: BatchItemRunner = async (item, update) => {
+  const provider = getProvider();
+  const style = resolveStyle(item.style);
+  const creationId = createCreationId();
+
+  const { data, mimeType } = await generateTextImage({
+    text: item.text,
+    style,
+    typographyPrompt: item.typographyPrompt,
+    referenceImage: item.referenceImage,
+    format: item.format
+  });
+  const keyframeImage = `data:${mimeType};base64,${data}`;
+  update({ imageSrc: keyframeImage, status: 'generating-video', creationId });
+  saveCreation({
+    id: creationId,
+    text: item.text,
+    style,
+    typographyPrompt: item.typographyPrompt || '',
+    referenceImage: item.referenceImage,
+    keyframeImage,
+    format: item.format,
+    animationMode: item.animation?.mode,
+    startImage: item.animation?.startImage,
+    provider: provider.id,
+    models: { ...provider.models },
+    promptTemplates: templateSnapshotsFor(!!item.referenceImage, item.animation?.mode || 'reveal'),
+    createdAt: Date.now()
+  }).catch(e => console.warn("Could not save creation to history", e));
+
+  const videoUrl = await generateTextVideo(item.text, data, mimeType, style, item.format, item.animation, { creationId });
+  update({ videoUrl });
+
+  try {
+    const videoBlob = await (await fetch(videoUrl)).blob();
+    await updateCreation(creationId, { videoBlob, completedAt: Date.now() });
+  } catch (e) {
+    console.warn("Could not save video to history", e);
+  }
+};
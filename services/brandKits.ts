@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BRAND_KITS_STORE, withStore } from "./database";
+import { GuideFont, isFontDataUrl } from "./glyphGuide";
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  palette: string[]; // Hex colours, e.g. "#ff5a1f"
+  typographyPrompt: string;
+  style: string; // Default art direction
+  referenceImages: string[]; // Full Data URLs
+  font?: GuideFont;
+  logo?: string; // Full Data URL
+  updatedAt: number;
+}
+
+const KIT_FILE_FORMAT = 'typemotion.brandKits';
+const KIT_FILE_VERSION = 1;
+const HEX_COLOUR = /^#[0-9a-f]{6}$/i;
+
+export const createBrandKit = (changes: Partial<BrandKit> = {}): BrandKit => ({
+  id: `kit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: 'Untitled kit',
+  palette: [],
+  typographyPrompt: '',
+  style: '',
+  referenceImages: [],
+  ...changes,
+  updatedAt: Date.now()
+});
+
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const kits = await withStore<BrandKit[]>(BRAND_KITS_STORE, 'readonly', store => store.getAll());
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+  await withStore(BRAND_KITS_STORE, 'readwrite', store => store.put({ ...kit, updatedAt: Date.now() }));
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  await withStore(BRAND_KITS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Constraints appended to image and video prompts. The kit's art direction is only repeated
+// when the form no longer contains it, so an untouched prefill isn't stated twice.
+export const brandPromptConstraints = (kit: BrandKit, style = ''): string => {
+  const parts: string[] = [];
+  if (kit.palette.length) {
+    parts.push(`Brand colour palette: ${kit.palette.join(', ')}. Keep the dominant colours of the text and scene within this palette.`);
+  }
+  const kitStyle = kit.style.trim();
+  if (kitStyle && !style.includes(kitStyle)) {
+    parts.push(`Stay consistent with the brand's art direction: ${kitStyle}.`);
+  }
+  return parts.join(' ');
+};
+
+export const serializeBrandKits = (kits: BrandKit[]): Blob =>
+  new Blob([JSON.stringify({ format: KIT_FILE_FORMAT, version: KIT_FILE_VERSION, kits }, null, 2)], { type: 'application/json' });
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+// Accepts a shared kit file (or a bare array of kits) and drops anything that isn't a usable kit.
+// Built-in families have no data; an uploaded font must be embedded, never a URL the app would fetch
+const asFont = (raw: any): GuideFont | undefined => {
+  if (!raw || typeof raw.family !== 'string' || typeof raw.label !== 'string') return undefined;
+  if (raw.dataUrl === undefined) return { family: raw.family, label: raw.label };
+  return typeof raw.dataUrl === 'string' && isFontDataUrl(raw.dataUrl) ? { family: raw.family, label: raw.label, dataUrl: raw.dataUrl } : undefined;
+};
+
+// Imported kits keep their ids, so re-importing an updated file replaces the older copies.
+export const parseBrandKits = (json: string): BrandKit[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error("That file isn't valid JSON.");
+  }
+  const rawKits = Array.isArray(data) ? data : data?.format === KIT_FILE_FORMAT ? data.kits : null;
+  if (!Array.isArray(rawKits)) throw new Error("That file doesn't contain brand kits.");
+
+  const kits = rawKits
+    .filter((raw: any) => raw && typeof raw.name === 'string' && raw.name.trim())
+    .map((raw: any): BrandKit => createBrandKit({
+      ...(typeof raw.id === 'string' && raw.id ? { id: raw.id } : {}),
+      name: raw.name.trim(),
+      palette: asStringArray(raw.palette).filter(c => HEX_COLOUR.test(c)),
+      typographyPrompt: typeof raw.typographyPrompt === 'string' ? raw.typographyPrompt : '',
+      style: typeof raw.style === 'string' ? raw.style : '',
+      referenceImages: asStringArray(raw.referenceImages).filter(src => src.startsWith('data:image/')),
+      font: asFont(raw.font),
+      logo: typeof raw.logo === 'string' && raw.logo.startsWith('data:image/') ? raw.logo : undefined
+    }));
+  if (!kits.length) throw new Error("No valid brand kits found in that file.");
+  return kits;
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Non-destructive edits to a generated clip. Nothing is re-encoded until export: every exporter
+// maps output time back to a source time with `sourceTimeAt` and reads that frame.
+
+export interface ClipEdits {
+  trimStart: number; // Seconds into the source
+  trimEnd: number | null; // null = end of the source
+  speed: number;
+  reverse: boolean;
+  pingPong: boolean; // Plays forward then back (or back then forward when reversed)
+  holdLast: number; // Seconds to hold the final frame
+}
+
+export const DEFAULT_CLIP_EDITS: ClipEdits = {
+  trimStart: 0,
+  trimEnd: null,
+  speed: 1,
+  reverse: false,
+  pingPong: false,
+  holdLast: 0
+};
+
+export const SPEED_OPTIONS = [0.5, 0.75, 1, 1.5, 2];
+export const HOLD_OPTIONS = [0, 0.5, 1, 2];
+
+export const isIdentityEdit = (edits: ClipEdits, sourceDuration: number) =>
+  edits.trimStart <= 0
+  && (edits.trimEnd === null || edits.trimEnd >= sourceDuration)
+  && edits.speed === 1
+  && !edits.reverse
+  && !edits.pingPong
+  && edits.holdLast <= 0;
+
+const trimRange = (edits: ClipEdits, sourceDuration: number) => {
+  const start = Math.min(Math.max(0, edits.trimStart), sourceDuration);
+  const end = Math.max(start, Math.min(edits.trimEnd ?? sourceDuration, sourceDuration));
+  return { start, end };
+};
+
+// Length of one pass through the trimmed range at the chosen speed
+const passDuration = (edits: ClipEdits, sourceDuration: number) => {
+  const { start, end } = trimRange(edits, sourceDuration);
+  return (end - start) / edits.speed;
+};
+
+export const editedDuration = (edits: ClipEdits, sourceDuration: number) =>
+  passDuration(edits, sourceDuration) * (edits.pingPong ? 2 : 1) + edits.holdLast;
+
+export interface EditedFrame {
+  sourceTime: number;
+  direction: 1 | -1 | 0; // Playback direction at this point; 0 while holding the last frame
+}
+
+export const frameAt = (edits: ClipEdits, sourceDuration: number, outputTime: number): EditedFrame => {
+  const { start, end } = trimRange(edits, sourceDuration);
+  const pass = passDuration(edits, sourceDuration);
+  const passes = edits.pingPong ? 2 : 1;
+  // The last readable frame sits just before the end so seeks don't land past it
+  const lastFrame = Math.max(start, end - 0.001);
+
+  const at = (t: number, forward: boolean): EditedFrame => forward
+    ? { sourceTime: Math.min(lastFrame, start + t * edits.speed), direction: 1 }
+    : { sourceTime: Math.max(start, lastFrame - t * edits.speed), direction: -1 };
+
+  const t = Math.max(0, outputTime);
+  if (t < pass) return at(t, !edits.reverse);
+  if (passes === 2 && t < pass * 2) return at(t - pass, edits.reverse);
+  // Holding: whichever frame the last pass ended on
+  const endsForward = passes === 2 ? edits.reverse : !edits.reverse;
+  return { sourceTime: endsForward ? lastFrame : start, direction: 0 };
+};
+
+export const sourceTimeAt = (edits: ClipEdits, sourceDuration: number, outputTime: number) =>
+  frameAt(edits, sourceDuration, outputTime).sourceTime;
+
+// Edits that keep forward, continuous motion can be rendered by simply playing the clip (with its audio)
+export const isPlayableEdit = (edits: ClipEdits) => !edits.reverse && !edits.pingPong;
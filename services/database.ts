@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'typemotion';
+const DB_VERSION = 4;
+
+export const CREATIONS_STORE = 'creations';
+export const BRAND_KITS_STORE = 'brandKits';
+export const CACHE_STORE = 'generationCache';
+export const CACHE_META_STORE = 'generationCacheMeta';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each version only adds stores, so upgrading from any earlier version is a matter of creating what's missing
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const tx = request.transaction!;
+        if (!db.objectStoreNames.contains(CREATIONS_STORE)) {
+          const store = db.createObjectStore(CREATIONS_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(BRAND_KITS_STORE)) {
+          db.createObjectStore(BRAND_KITS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_META_STORE)) {
+          const meta = db.createObjectStore(CACHE_META_STORE, { keyPath: 'key' });
+          meta.createIndex('lastUsedAt', 'lastUsedAt');
+          // Cache entries used to carry their metadata next to the payload; copy it across once
+          const cursorRequest = tx.objectStore(CACHE_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { value, ...metadata } = cursor.value;
+            if (typeof metadata.size === 'number') meta.put(metadata);
+            else cursor.delete();
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Could not open the local database"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a transaction over several stores in a promise that settles with `run`'s request once it commits
+export const withStores = async <T,>(storeNames: string[], mode: IDBTransactionMode, run: (tx: IDBTransaction) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = run(tx);
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error(`${storeNames.join(', ')} transaction aborted`));
+  });
+};
+
+// Wraps a single-request transaction in a promise that settles when the transaction commits
+export const withStore = <T,>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  withStores([storeName], mode, tx => run(tx.objectStore(storeName)));
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type GenerationErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'safety'
+  | 'timeout'
+  | 'network'
+  | 'empty-output'
+  | 'cancelled'
+  | 'expired' // A video operation the service no longer knows, so polling it again can never succeed
+  | 'unknown';
+
+// Form inputs a safety block can be attributed to
+export type InputField = 'text' | 'style' | 'typographyPrompt' | 'referenceImage' | 'instruction';
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  category?: string; // Safety category or filter reason reported by the provider
+  field?: InputField;
+  status?: number;
+
+  constructor(kind: GenerationErrorKind, message: string, details: { category?: string; field?: InputField; status?: number; cause?: unknown } = {}) {
+    super(message, { cause: details.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.category = details.category;
+    this.field = details.field;
+    this.status = details.status;
+  }
+}
+
+export const isGenerationError = (error: unknown): error is GenerationError => error instanceof GenerationError;
+
+const includesAny = (value: string, needles: string[]) => needles.some(needle => value.includes(needle));
+
+// Maps SDK, fetch and provider failures onto a kind. Already-typed errors pass through unchanged.
+export const classifyError = (error: unknown): GenerationError => {
+  if (isGenerationError(error)) return error;
+
+  const err = error as any;
+  const message: string = err?.message || String(error || 'Unknown error');
+  const lower = message.toLowerCase();
+  const status: number | undefined = typeof err?.status === 'number'
+    ? err.status
+    : Number(message.match(/\b(400|401|403|404|429|500|502|503|504)\b/)?.[1]) || undefined;
+  const details = { status, cause: error };
+
+  if (err?.name === 'AbortError') return new GenerationError('cancelled', message, details);
+  if (err?.name === 'TimeoutError') return new GenerationError('timeout', message, details);
+  if (err?.name === 'TypeError' && includesAny(lower, ['failed to fetch', 'networkerror', 'load failed'])) {
+    return new GenerationError('network', "Couldn't reach the generation service. Check your connection.", details);
+  }
+  if (status === 401 || status === 403 || includesAny(lower, ['requested entity was not found', 'api key not valid', 'api_key_invalid', 'permission denied'])) {
+    return new GenerationError('auth', message, details);
+  }
+  if (status === 404) return new GenerationError('auth', message, details);
+  if (status === 429 || lower.includes('resource_exhausted')) {
+    const isQuota = includesAny(lower, ['quota', 'billing', 'exceeded your current']);
+    return new GenerationError(isQuota ? 'quota' : 'rate-limit', message, details);
+  }
+  if (includesAny(lower, ['safety', 'blocked', 'prohibited', 'responsible ai', 'raimedia'])) {
+    return new GenerationError('safety', message, details);
+  }
+  if (status && status >= 500) return new GenerationError('network', message, details);
+  return new GenerationError('unknown', message, details);
+};
+
+interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+}
+
+// Nothing the user has to fix (key, billing, content, a deliberate cancel) is worth retrying
+const RETRY_POLICIES: Record<GenerationErrorKind, RetryPolicy> = {
+  'auth': { retries: 0, baseDelayMs: 0 },
+  'quota': { retries: 0, baseDelayMs: 0 },
+  'safety': { retries: 0, baseDelayMs: 0 },
+  'cancelled': { retries: 0, baseDelayMs: 0 },
+  'expired': { retries: 0, baseDelayMs: 0 },
+  'timeout': { retries: 0, baseDelayMs: 0 },
+  'rate-limit': { retries: 3, baseDelayMs: 4000 },
+  'network': { retries: 2, baseDelayMs: 1500 },
+  'empty-output': { retries: 1, baseDelayMs: 1000 },
+  'unknown': { retries: 1, baseDelayMs: 3000 }
+};
+
+export const getRetryPolicy = (kind: GenerationErrorKind): RetryPolicy => RETRY_POLICIES[kind];
+
+const backoffDelay = (policy: RetryPolicy, retry: number) =>
+  policy.baseDelayMs * 2 ** retry * (0.8 + Math.random() * 0.4);
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException("Cancelled.", "AbortError"));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException("Cancelled.", "AbortError"));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  field?: InputField; // Attached to safety errors so the UI can point at the input
+  onRetry?: (error: GenerationError, retry: number, delayMs: number) => void;
+}
+
+// Runs `task` and retries according to the policy of whatever kind of error it throws.
+// Each kind counts its own retries, so a rate limit after a network blip still gets backoff.
+export const withRetry = async <T>(task: () => Promise<T>, { signal, field, onRetry }: RetryOptions = {}): Promise<T> => {
+  const retriesByKind: Partial<Record<GenerationErrorKind, number>> = {};
+  while (true) {
+    try {
+      return await task();
+    } catch (e) {
+      const error = classifyError(e);
+      if (error.kind === 'safety' && !error.field) error.field = field;
+      const retry = retriesByKind[error.kind] || 0;
+      const policy = getRetryPolicy(error.kind);
+      if (retry >= policy.retries || signal?.aborted) throw error;
+      retriesByKind[error.kind] = retry + 1;
+      const delayMs = backoffDelay(policy, retry);
+      onRetry?.(error, retry + 1, delayMs);
+      await wait(delayMs, signal);
+    }
+  }
+};
+
+export type ErrorAction = 'select-key' | 'open-billing' | 'edit-field' | 'retry' | 'none';
+
+export interface ErrorDescription {
+  title: string;
+  message: string;
+  action: ErrorAction;
+  field?: InputField;
+}
+
+const FIELD_LABELS: Record<InputField, string> = {
+  text: 'content',
+  style: 'art direction',
+  typographyPrompt: 'typography',
+  referenceImage: 'reference image',
+  instruction: 'refinement'
+};
+
+export const describeError = (e: unknown): ErrorDescription => {
+  const error = classifyError(e);
+  switch (error.kind) {
+    case 'auth':
+      return { title: 'API key needed', message: 'Your API key is missing, invalid or lacks access to this model. Select a key from a paid project.', action: 'select-key' };
+    case 'quota':
+      return { title: 'Quota exhausted', message: 'This project has run out of quota or billing is not set up. Retrying will not help until that is fixed.', action: 'open-billing' };
+    case 'rate-limit':
+      return { title: 'Too many requests', message: 'The service is rate limiting this key. Wait a minute and try again.', action: 'retry' };
+    case 'safety': {
+      const where = error.field ? ` Try rewording the ${FIELD_LABELS[error.field]}.` : '';
+      const category = error.category ? ` (${error.category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase()})` : '';
+      return { title: 'Blocked by safety filters', message: `The request was blocked${category}.${where}`, action: error.field ? 'edit-field' : 'none', field: error.field };
+    }
+    case 'timeout':
+      return { title: 'Still rendering', message: error.message, action: 'retry' };
+    case 'network':
+      return { title: 'Connection problem', message: error.message, action: 'retry' };
+    case 'empty-output':
+      return { title: 'Nothing came back', message: 'The model returned no output. Trying again usually works.', action: 'retry' };
+    case 'cancelled':
+      return { title: 'Cancelled', message: error.message, action: 'none' };
+    case 'expired':
+      return { title: 'Video no longer available', message: error.message, action: 'none' };
+    default:
+      return { title: 'Generation failed', message: error.message || 'Something went wrong creating your art.', action: 'retry' };
+  }
+};
+
+export const BILLING_URL = 'https://ai.google.dev/gemini-api/docs/billing';
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AspectRatio } from "../types";
+import { createZipBlob, pickRecorderMimeType, ZipEntry } from "../utils";
+import { cancelledError, FrameReader, openFrameReader, readFrames } from "./videoFrames";
+import { ClipEdits, DEFAULT_CLIP_EDITS, editedDuration, frameAt, isPlayableEdit } from "./clipEdits";
+import { AudioMix, AudioTrack, createAudioMix, DEFAULT_AUDIO_TRACK, isOriginalAudio } from "./audioTrack";
+import { assembleApng } from "./png";
+
+export type ExportFormatId = 'webm' | 'webp' | 'apng' | 'png-sequence' | 'poster';
+
+export const EXPORT_FORMATS: { id: ExportFormatId; label: string; extension: string; description: string }[] = [
+  { id: 'webm', label: 'WebM', extension: 'webm', description: 'VP8/VP9 video for the web, re-encoded in the browser.' },
+  { id: 'webp', label: 'Animated WebP', extension: 'webp', description: 'Much lighter than GIF with full colour.' },
+  { id: 'apng', label: 'APNG', extension: 'png', description: 'Lossless animated PNG.' },
+  { id: 'png-sequence', label: 'PNG frames', extension: 'zip', description: 'ZIP of numbered lossless frames for compositing.' },
+  { id: 'poster', label: 'Poster frame', extension: 'png', description: 'A single still at the chosen time.' },
+];
+
+export interface FrameExportOptions {
+  aspectRatio?: AspectRatio;
+  edits?: ClipEdits;
+  fps: number;
+  maxWidth?: number;
+  quality?: number; // 0..1, lossy formats only
+  logo?: string; // Data URL stamped on every frame
+  signal?: AbortSignal;
+  onProgress?: (value: number) => void;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`)), type, quality);
+});
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// --- WebP ---
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readRiffChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(8 + data.length + (data.length % 2));
+  for (let i = 0; i < 4; i++) out[i] = type.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const uint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Browsers only encode still WebP, so each frame's bitstream is wrapped in an ANMF chunk by hand
+const assembleAnimatedWebp = (frames: { webp: Uint8Array; delayMs: number }[], width: number, height: number): Blob => {
+  let hasAlpha = false;
+  const animationFrames = frames.map(({ webp, delayMs }) => {
+    const bitstream = readRiffChunks(webp).filter(c => c.type === 'ALPH' || c.type === 'VP8 ' || c.type === 'VP8L');
+    if (bitstream.some(c => c.type === 'ALPH')) hasAlpha = true;
+    const header = new Uint8Array(16);
+    uint24(header, 6, width - 1);
+    uint24(header, 9, height - 1);
+    uint24(header, 12, Math.round(delayMs));
+    header[15] = 0x02; // Do not blend with the previous frame
+    return riffChunk('ANMF', concatBytes([header, ...bitstream.map(c => riffChunk(c.type, c.data))]));
+  });
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02 | (hasAlpha ? 0x10 : 0); // Animation (+ alpha) flags
+  uint24(vp8x, 4, width - 1);
+  uint24(vp8x, 7, height - 1);
+  const anim = new Uint8Array(6); // Transparent background, loop forever
+
+  const body = concatBytes([new TextEncoder().encode('WEBP'), riffChunk('VP8X', vp8x), riffChunk('ANIM', anim), ...animationFrames]);
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode('RIFF'));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return new Blob([header, body], { type: 'image/webp' });
+};
+
+const supportsWebpEncoding = () =>
+  document.createElement('canvas').toDataURL('image/webp').startsWith('data:image/webp');
+
+// --- Frame-based formats ---
+
+// Encodes every frame as a still image. Held or stuck frames extend the previous frame so timing is preserved.
+const encodeFrames = async (reader: FrameReader, type: string, { fps, edits, quality, signal, onProgress }: FrameExportOptions) => {
+  const frames: { bytes: Uint8Array; delayMs: number }[] = [];
+  await readFrames(reader, { fps, edits, signal, onProgress }, async (_, fresh, delayMs) => {
+    if (!fresh && frames.length) {
+      frames[frames.length - 1].delayMs += delayMs;
+      return;
+    }
+    frames.push({ bytes: await blobBytes(await canvasToBlob(reader.canvas, type, quality)), delayMs });
+  });
+  return frames;
+};
+
+export const exportApng = async (videoUrl: string, options: FrameExportOptions): Promise<Blob> => {
+  const reader = await openFrameReader(videoUrl, { aspectRatio: options.aspectRatio, maxWidth: options.maxWidth, logo: options.logo });
+  const frames = await encodeFrames(reader, 'image/png', options);
+  return assembleApng(frames.map(f => ({ png: f.bytes, delayMs: f.delayMs })), reader.width, reader.height);
+};
+
+export const exportAnimatedWebp = async (videoUrl: string, options: FrameExportOptions): Promise<Blob> => {
+  if (!supportsWebpEncoding()) throw new Error("This browser can't encode WebP images.");
+  const reader = await openFrameReader(videoUrl, { aspectRatio: options.aspectRatio, maxWidth: options.maxWidth, logo: options.logo });
+  const frames = await encodeFrames(reader, 'image/webp', { ...options, quality: options.quality ?? 0.85 });
+  return assembleAnimatedWebp(frames.map(f => ({ webp: f.bytes, delayMs: f.delayMs })), reader.width, reader.height);
+};
+
+// Compositing tools expect one file per frame at a constant rate, so held or stuck frames are written again
+export const exportPngSequence = async (videoUrl: string, options: FrameExportOptions): Promise<Blob> => {
+  const reader = await openFrameReader(videoUrl, { aspectRatio: options.aspectRatio, maxWidth: options.maxWidth, logo: options.logo });
+  const entries: ZipEntry[] = [];
+  await readFrames(reader, options, async (index) => {
+    entries.push({ name: `frame-${String(index + 1).padStart(4, '0')}.png`, data: await canvasToBlob(reader.canvas, 'image/png') });
+  });
+  entries.push({ name: 'frames.json', data: JSON.stringify({ fps: options.fps, width: reader.width, height: reader.height, frames: entries.length }, null, 2) });
+  return createZipBlob(entries);
+};
+
+// `time` is on the edited timeline
+export const exportPosterFrame = async (videoUrl: string, time: number, { aspectRatio, maxWidth, logo, edits = DEFAULT_CLIP_EDITS }: Pick<FrameExportOptions, 'aspectRatio' | 'maxWidth' | 'logo' | 'edits'> = {}): Promise<Blob> => {
+  const reader = await openFrameReader(videoUrl, { aspectRatio, maxWidth, logo });
+  if (!(await reader.seek(frameAt(edits, reader.duration, time).sourceTime))) throw new Error("Could not seek to that frame.");
+  reader.draw();
+  return canvasToBlob(reader.canvas, 'image/png');
+};
+
+// --- Video ---
+
+const RECORD_FPS = 30;
+
+const waitUntil = (timestamp: number) => new Promise(resolve => setTimeout(resolve, Math.max(0, timestamp - performance.now())));
+
+export interface VideoExportOptions extends Omit<FrameExportOptions, 'fps' | 'quality'> {
+  audio?: AudioTrack;
+}
+
+interface RecordOptions extends VideoExportOptions {
+  mimeType: string;
+}
+
+// Renders the edited clip into a canvas in real time and records it. Forward edits simply play the
+// clip (keeping its audio); reversed and ping-pong edits step frame by frame and lose the original
+// audio, though replacement music still plays over them.
+export const recordEditedVideo = async (videoUrl: string, { aspectRatio, maxWidth, logo, edits = DEFAULT_CLIP_EDITS, audio = DEFAULT_AUDIO_TRACK, mimeType, signal, onProgress }: RecordOptions): Promise<Blob> => {
+  const reader = await openFrameReader(videoUrl, { aspectRatio, maxWidth, logo });
+  const { video, canvas } = reader;
+  const total = editedDuration(edits, reader.duration);
+  const stream = canvas.captureStream(RECORD_FPS);
+  let mix: AudioMix | null = null;
+  if (isOriginalAudio(audio)) {
+    const captureAudio = (video as any).captureStream || (video as any).mozCaptureStream;
+    if (captureAudio && isPlayableEdit(edits)) {
+      captureAudio.call(video).getAudioTracks().forEach((track: MediaStreamTrack) => stream.addTrack(track));
+    }
+  } else if (audio.mode !== 'none') {
+    mix = await createAudioMix(video, audio, { duration: total, includeOriginal: isPlayableEdit(edits) });
+    mix.tracks.forEach(track => stream.addTrack(track));
+  }
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  const checkCancelled = () => {
+    if (signal?.aborted) throw cancelledError();
+  };
+
+  await reader.seek(frameAt(edits, reader.duration, 0).sourceTime);
+  reader.draw();
+  recorder.start();
+  mix?.start();
+  const startedAt = performance.now();
+  const elapsed = () => (performance.now() - startedAt) / 1000;
+
+  try {
+    if (isPlayableEdit(edits)) {
+      const playEnd = total - edits.holdLast;
+      video.playbackRate = edits.speed;
+      await video.play();
+      while (elapsed() < playEnd && !video.ended && video.currentTime < frameAt(edits, reader.duration, playEnd).sourceTime) {
+        checkCancelled();
+        reader.draw();
+        onProgress?.(Math.min(1, elapsed() / total));
+        await new Promise(requestAnimationFrame);
+      }
+      video.pause();
+      reader.draw();
+      // Keep the canvas live while holding so the recorder keeps emitting the final frame
+      const holdUntil = performance.now() + edits.holdLast * 1000;
+      while (performance.now() < holdUntil) {
+        checkCancelled();
+        reader.draw();
+        onProgress?.(Math.min(1, elapsed() / total));
+        await new Promise(requestAnimationFrame);
+      }
+    } else {
+      await readFrames(reader, { fps: RECORD_FPS, edits, signal }, async (index) => {
+        onProgress?.(Math.min(1, index / RECORD_FPS / total));
+        await waitUntil(startedAt + ((index + 1) * 1000) / RECORD_FPS);
+      });
+    }
+  } finally {
+    video.pause();
+    recorder.stop();
+    await stopped;
+    mix?.close();
+  }
+  onProgress?.(1);
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const exportWebm = async (videoUrl: string, options: VideoExportOptions): Promise<Blob> => {
+  const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser can't record WebM video.");
+  return recordEditedVideo(videoUrl, { ...options, mimeType });
+};
+
+// Re-encodes in whatever container the browser records natively (MP4 or WebM)
+export const exportEditedVideo = async (videoUrl: string, options: VideoExportOptions): Promise<Blob> => {
+  const mimeType = pickRecorderMimeType();
+  if (!mimeType) throw new Error("This browser can't record video.");
+  return recordEditedVideo(videoUrl, { ...options, mimeType });
+};
@@ -4,198 +4,140 @@
 */
 
 
-import { GoogleGenAI } from "@google/genai";
-import { cleanBase64 } from "../utils";
-
-// Helper to ensure we always get a fresh instance with the latest key
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Helper to create a blank black image for the video start frame
-const createBlankImage = (width: number, height: number): string => {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-  if (ctx) {
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, width, height);
-  }
-  const dataUrl = canvas.toDataURL('image/png');
-  return cleanBase64(dataUrl);
-};
+import { cleanBase64, DEFAULT_OUTPUT_FORMAT } from "../utils";
+import { AnimationOptions, KeyframeImage, OutputFormat } from "../types";
+import { getProvider, getProviderById, GenerationProvider, InlineImage } from "./providers";
+import { PendingVideoOperation, trackOperation, untrackOperation } from "./operationStore";
+import { GenerationError } from "./errors";
+import { GlyphGuide, renderGlyphGuide } from "./glyphGuide";
+import { BrandKit } from "./brandKits";
+import { quoteForPrompt, textPromptNotes } from "./textInput";
+import { FitToFrame, fromDataUrl, generateKeyframe, generateVideo, requestImage, resumeVideo, suggestStyle, VideoGenerationOptions } from "./generationCore";
+import { cacheOptions } from "./generationCache";
+
+// Browser side of the generation core: the provider comes from the user's choice, results are cached
+// in IndexedDB, frames are letterboxed on canvas, operations are tracked in localStorage and videos become object URLs.
+
+export { DEFAULT_VIDEO_TIMEOUT_MS, imagePromptVariables, isAbortError, resolveStyle, templateSnapshotsFor, videoPromptVariables } from "./generationCore";
+
+export interface CacheRequest {
+  sample?: number; // Separates requests that are identical on purpose, e.g. keyframe candidates
+  force?: boolean; // Regenerate even when a cached result exists
+  onCacheHit?: () => void;
+}
 
-export const generateStyleSuggestion = async (text: string): Promise<string> => {
-  const ai = getAI();
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Generate a single, creative, short (10-15 words) visual art direction description for a cinematic text animation of the word/phrase: "${text}". 
-      Focus on material, lighting, and environment. 
-      Examples: "Formed by fluffy white clouds in a deep blue sky", "Glowing neon signs reflected in a rainy street", "Carved from ancient stone in a mossy forest".
-      Output ONLY the description.`
-    });
-    return response.text?.trim() || "";
-  } catch (e) {
-    console.error("Failed to generate style suggestion", e);
-    return "";
-  }
+const cacheFor = ({ sample, force, onCacheHit }: CacheRequest) => cacheOptions({ sample, force, onHit: onCacheHit });
+
+export interface VideoRunOptions extends Pick<VideoGenerationOptions, 'signal' | 'timeoutMs' | 'brand' | 'onRetry'>, CacheRequest {
+  creationId?: string; // Stored with the pending operation so a resumed video can find its history record
+}
+
+// Letterboxes an image onto a black canvas of the given size, e.g. a square keyframe inside a 16:9 video frame
+const padImageToSize: FitToFrame = (image, width, height) => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Could not get canvas context"));
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, width, height);
+      const scale = Math.min(width / img.width, height / img.height);
+      const w = img.width * scale;
+      const h = img.height * scale;
+      ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+      resolve({ data: cleanBase64(canvas.toDataURL('image/png')), mimeType: 'image/png' });
+    };
+    img.onerror = () => reject(new Error("Could not decode keyframe image"));
+    img.src = `data:${image.mimeType};base64,${image.data}`;
+  });
 };
 
-interface TextImageOptions {
+export const generateStyleSuggestion = (text: string, request: CacheRequest = {}): Promise<string> =>
+  suggestStyle(getProvider(), text, cacheFor(request));
+
+interface TextImageOptions extends CacheRequest {
   text: string;
   style: string;
   typographyPrompt?: string;
   referenceImage?: string; // Full Data URL
+  format?: OutputFormat;
+  guide?: GlyphGuide; // Exact font and layout, rendered locally and sent as a structural reference
+  brand?: BrandKit;
+  onRetry?: (error: GenerationError, retry: number, delayMs: number) => void;
 }
 
-export const generateTextImage = async ({ text, style, typographyPrompt, referenceImage }: TextImageOptions): Promise<{ data: string, mimeType: string }> => {
-  const ai = getAI();
-  const parts: any[] = [];
-  
-  const typoInstruction = typographyPrompt && typographyPrompt.trim().length > 0 
-    ? typographyPrompt 
-    : "High-quality, creative typography that perfectly matches the visual environment. Legible and artistic.";
-
-  if (referenceImage) {
-    const [mimeTypePart, data] = referenceImage.split(';base64,');
-    parts.push({
-      inlineData: {
-        data: data,
-        mimeType: mimeTypePart.replace('data:', '')
-      }
-    });
-    
-    parts.push({ 
-      text: `Analyze the visual style, color palette, lighting, and textures of this reference image. 
-      Create a NEW high-resolution cinematic image featuring the text "${text}" written in the center. 
-      Typography Instruction: ${typoInstruction}.
-      The text should look like it perfectly belongs in the world of the reference image.
-      Additional style instructions: ${style}.` 
-    });
-  } else {
-    parts.push({ 
-      text: `A hyper-realistic, cinematic, high-resolution image featuring the text "${text}". 
-      Typography Instruction: ${typoInstruction}. 
-      Visual Style: ${style}. 
-      The typography must be legible, artistic, and centered. Lighting should be dramatic and atmospheric. 8k resolution, detailed texture.` 
-    });
-  }
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { parts },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9",
-          imageSize: "1K"
-        }
-      }
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return { 
-          data: part.inlineData.data, 
-          mimeType: part.inlineData.mimeType || 'image/png' 
-        };
-      }
-    }
-    throw new Error("No image generated");
-  } catch (error: any) {
-    throw error;
-  }
+export const generateTextImage = async ({ referenceImage, sample, force, onCacheHit, ...options }: TextImageOptions): Promise<{ data: string, mimeType: string }> => {
+  const { text, format = DEFAULT_OUTPUT_FORMAT, guide } = options;
+  const guideImage = guide ? await renderGlyphGuide(text, guide, format.aspectRatio) : undefined;
+  return generateKeyframe(getProvider(), {
+    ...options,
+    referenceImage: referenceImage ? fromDataUrl(referenceImage) : undefined,
+    guideImage,
+    cache: cacheFor({ sample, force, onCacheHit })
+  });
 };
 
-const pollForVideo = async (operation: any) => {
-  const ai = getAI();
-  let op = operation;
-  const startTime = Date.now();
-  const MAX_WAIT_TIME = 180000; 
-
-  while (!op.done) {
-    if (Date.now() - startTime > MAX_WAIT_TIME) {
-      throw new Error("Video generation timed out.");
-    }
-    await sleep(5000); 
-    op = await ai.operations.getVideosOperation({ operation: op });
-  }
-  return op;
-};
+interface EditImageOptions {
+  image: KeyframeImage;
+  instruction: string;
+  text: string;
+  style: string;
+  format?: OutputFormat;
+}
 
-const fetchVideoBlob = async (uri: string) => {
-  try {
-    const url = new URL(uri);
-    url.searchParams.append('key', process.env.API_KEY || '');
-    
-    const videoResponse = await fetch(url.toString());
-    if (!videoResponse.ok) {
-      throw new Error(`Failed to fetch video content: ${videoResponse.statusText}`);
-    }
-    const blob = await videoResponse.blob();
-    return URL.createObjectURL(blob);
-  } catch (e: any) {
-    const fallbackUrl = `${uri}${uri.includes('?') ? '&' : '?'}key=${process.env.API_KEY}`;
-    const videoResponse = await fetch(fallbackUrl);
-    if (!videoResponse.ok) {
-      throw new Error(`Failed to fetch video content: ${videoResponse.statusText}`);
-    }
-    const blob = await videoResponse.blob();
-    return URL.createObjectURL(blob);
-  }
+// Sends the current keyframe back to the image model with a follow-up instruction
+export const editTextImage = async ({ image, instruction, text, style, format = DEFAULT_OUTPUT_FORMAT }: EditImageOptions): Promise<KeyframeImage> => {
+  const provider = getProvider();
+  const prompt = `Edit this image according to the following instruction: ${instruction}.
+      Keep the text "${quoteForPrompt(text)}" spelled exactly as written and fully legible. ${textPromptNotes(text)}
+      Preserve the composition, style and everything else that the instruction does not mention.`;
+
+  return requestImage(provider, {
+    prompt,
+    referenceImage: { data: cleanBase64(image.data), mimeType: image.mimeType },
+    text,
+    // Offline providers derive their look from the style, so fold the instruction in
+    style: `${style} ${instruction}`,
+    aspectRatio: format.aspectRatio,
+    imageSize: format.resolution === '1080p' ? '2K' : '1K'
+  }, { field: 'instruction', cache: cacheFor({}) });
 };
 
-export const generateTextVideo = async (text: string, imageBase64: string, imageMimeType: string, promptStyle: string): Promise<string> => {
-  const ai = getAI();
-
-  if (!imageBase64) throw new Error("Image generation failed, cannot generate video.");
-
-  const cleanImageBase64 = cleanBase64(imageBase64);
-
-  const maxRevealRetries = 1; 
-  for (let i = 0; i <= maxRevealRetries; i++) {
-    try {
-      const startImage = createBlankImage(1280, 720);
-      const revealPrompt = `Cinematic transition. The text "${text}" gradually forms and materializes from darkness. ${promptStyle}. High quality, 8k, smooth motion.`;
-
-      let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
-        prompt: revealPrompt,
-        image: {
-          imageBytes: startImage,
-          mimeType: 'image/png'
-        },
-        config: {
-          numberOfVideos: 1,
-          resolution: '720p',
-          aspectRatio: '16:9',
-          lastFrame: {
-            imageBytes: cleanImageBase64,
-            mimeType: imageMimeType
-          }
-        }
-      });
-
-      const op = await pollForVideo(operation);
-
-      if (!op.error && op.response?.generatedVideos?.[0]?.video?.uri) {
-        return await fetchVideoBlob(op.response.generatedVideos[0].video.uri);
-      }
-      
-      if (op.error) {
-        if (i < maxRevealRetries) {
-          await sleep(3000);
-          continue; 
-        }
-        throw new Error(op.error.message);
-      }
-    } catch (error: any) {
-      if (i === maxRevealRetries) throw error;
-      await sleep(3000);
-    }
+// Picks up an operation started in an earlier session. Aborting only stops polling here;
+// the operation stays tracked so the next session can try again.
+export const resumeTextVideo = async (pending: PendingVideoOperation, runOptions: VideoRunOptions = {}): Promise<string> => {
+  const provider = getProviderById(pending.providerId);
+  if (!provider) {
+    untrackOperation(pending.name);
+    throw new Error(`Unknown provider "${pending.providerId}" for a pending video.`);
   }
 
-  throw new Error("Unable to generate video.");
+  const blob = await resumeVideo(provider, pending.name, { ...runOptions, onFinished: untrackOperation });
+  return URL.createObjectURL(blob);
+};
+
+const trackedRun = (provider: GenerationProvider, text: string, { creationId, sample, force, onCacheHit, ...runOptions }: VideoRunOptions): VideoGenerationOptions => ({
+  ...runOptions,
+  cache: cacheFor({ sample, force, onCacheHit }),
+  fitToFrame: padImageToSize,
+  onStarted: (operation) => trackOperation({ name: operation.name, providerId: provider.id, text, startedAt: Date.now(), creationId }),
+  onFinished: untrackOperation
+});
+
+export const generateTextVideo = async (
+  text: string,
+  imageBase64: string,
+  imageMimeType: string,
+  promptStyle: string,
+  format: OutputFormat = DEFAULT_OUTPUT_FORMAT,
+  animation: AnimationOptions = { mode: 'reveal' },
+  runOptions: VideoRunOptions = {}
+): Promise<string> => {
+  const provider = getProvider();
+  const keyframe: InlineImage = { data: imageBase64, mimeType: imageMimeType };
+  const blob = await generateVideo(provider, text, keyframe, promptStyle, format, animation, trackedRun(provider, text, runOptions));
+  return URL.createObjectURL(blob);
 };
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CACHE_META_STORE, CACHE_STORE, withStore, withStores } from "./database";
+import { CacheKind, CacheOptions, GenerationCache } from "./generationCore";
+
+// Results of identical requests, kept in IndexedDB under their content address (see generationCacheKey)
+// so re-running the same inputs costs nothing. The least recently used entries go once the size limit is hit.
+// Metadata lives in its own store so listing and evicting never load the keyframes and videos themselves.
+
+export interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  model: string; // Provider and model, e.g. gemini/veo-3.1-fast-generate-preview
+  label: string; // The text that was animated
+  size: number; // Bytes
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+interface CachePayload {
+  key: string;
+  value: string | Blob;
+}
+
+export interface CacheSettings {
+  useCached: boolean; // Off means every request goes to the model, though results are still stored
+  maxBytes: number;
+}
+
+const CACHE_SETTINGS_KEY = 'typemotion.cacheSettings';
+const MB = 1024 * 1024;
+
+export const CACHE_SIZE_OPTIONS = [100 * MB, 250 * MB, 500 * MB, 1024 * MB];
+
+const DEFAULT_CACHE_SETTINGS: CacheSettings = { useCached: true, maxBytes: 250 * MB };
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * MB ? `${(bytes / 1024 / MB).toFixed(1)} GB` : bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const getCacheSettings = (): CacheSettings => {
+  try {
+    const raw = localStorage.getItem(CACHE_SETTINGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return {
+      useCached: typeof parsed.useCached === 'boolean' ? parsed.useCached : DEFAULT_CACHE_SETTINGS.useCached,
+      maxBytes: CACHE_SIZE_OPTIONS.includes(parsed.maxBytes) ? parsed.maxBytes : DEFAULT_CACHE_SETTINGS.maxBytes
+    };
+  } catch (e) {
+    console.warn("Could not read cache settings", e);
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  try {
+    localStorage.setItem(CACHE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not persist cache settings", e);
+  }
+};
+
+const entrySize = (value: string | Blob) => typeof value === 'string' ? value.length : value.size;
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await withStore<CacheEntry[]>(CACHE_META_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+// Reads a payload without counting it as a use, e.g. for previews
+export const peekCacheValue = async (key: string): Promise<string | Blob | undefined> =>
+  (await withStore<CachePayload | undefined>(CACHE_STORE, 'readonly', store => store.get(key)))?.value;
+
+export const deleteCacheEntry = async (key: string): Promise<void> => {
+  await withStores([CACHE_META_STORE, CACHE_STORE], 'readwrite', tx => {
+    tx.objectStore(CACHE_STORE).delete(key);
+    return tx.objectStore(CACHE_META_STORE).delete(key);
+  });
+};
+
+export const clearCache = async (): Promise<void> => {
+  await withStores([CACHE_META_STORE, CACHE_STORE], 'readwrite', tx => {
+    tx.objectStore(CACHE_STORE).clear();
+    return tx.objectStore(CACHE_META_STORE).clear();
+  });
+};
+
+// Drops least recently used entries until the total fits; returns how many went
+export const enforceCacheLimit = async (maxBytes = getCacheSettings().maxBytes): Promise<number> => {
+  let total = 0;
+  await withStore(CACHE_META_STORE, 'readonly', store => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      total += (cursor.value as CacheEntry).size;
+      cursor.continue();
+    };
+    return request;
+  });
+  if (total <= maxBytes) return 0;
+
+  let evicted = 0;
+  await withStores([CACHE_META_STORE, CACHE_STORE], 'readwrite', tx => {
+    const payloads = tx.objectStore(CACHE_STORE);
+    const request = tx.objectStore(CACHE_META_STORE).index('lastUsedAt').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || total <= maxBytes) return;
+      const entry = cursor.value as CacheEntry;
+      payloads.delete(entry.key);
+      cursor.delete();
+      total -= entry.size;
+      evicted++;
+      cursor.continue();
+    };
+    return request;
+  });
+  return evicted;
+};
+
+const browserCache: GenerationCache = {
+  get: async (key) => {
+    const entry = await withStore<CacheEntry | undefined>(CACHE_META_STORE, 'readonly', store => store.get(key));
+    const value = entry && await peekCacheValue(key);
+    if (!entry || value === undefined) return undefined;
+    await withStore(CACHE_META_STORE, 'readwrite', store => store.put({ ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 }));
+    return value;
+  },
+  put: async (key, { kind, model, label, value }) => {
+    const now = Date.now();
+    const entry: CacheEntry = { key, kind, model, label, size: entrySize(value), createdAt: now, lastUsedAt: now, hits: 0 };
+    const payload: CachePayload = { key, value };
+    await withStores([CACHE_META_STORE, CACHE_STORE], 'readwrite', tx => {
+      tx.objectStore(CACHE_STORE).put(payload);
+      return tx.objectStore(CACHE_META_STORE).put(entry);
+    });
+    await enforceCacheLimit();
+  }
+};
+
+// `force` regenerates regardless of the setting; `sample` separates deliberately repeated requests
+export const cacheOptions = ({ force, sample, onHit }: { force?: boolean; sample?: number; onHit?: () => void } = {}): CacheOptions => ({
+  store: browserCache,
+  mode: force || !getCacheSettings().useCached ? 'refresh' : 'use',
+  sample,
+  onHit
+});
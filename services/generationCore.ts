@@ -0,0 +1,371 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { cleanBase64, DEFAULT_OUTPUT_FORMAT, getFrameSize, getVideoAspectRatio } from "../utils";
+import { AnimationOptions, OutputFormat, SoundOptions } from "../types";
+import { GenerationProvider, ImageRequest, InlineImage, VideoOperation } from "./providers/types";
+import { classifyError, GenerationError, InputField, isGenerationError, withRetry } from "./errors";
+import { describeGuide, GlyphGuide } from "./glyphGuide";
+import { BrandKit, brandPromptConstraints } from "./brandKits";
+import { getTemplateSnapshots, renderPrompt, TemplateId, TemplateVariables } from "./promptTemplates";
+import { normalizeInputText, quoteForPrompt, textPromptNotes } from "./textInput";
+import { solidPng } from "./png";
+import { getRandomStyle } from "./presets";
+
+// Prompting, keyframes and the video polling loop with no DOM access, shared by the app and the CLI.
+// Callers pick the provider and decide what to do with the resulting bytes.
+
+export const DEFAULT_VIDEO_TIMEOUT_MS = 180000;
+
+// Letterboxes a frame onto a black background of the given size
+export type FitToFrame = (image: InlineImage, width: number, height: number) => Promise<InlineImage>;
+
+export type CacheKind = 'style' | 'image' | 'video';
+
+// Where results are kept between runs; images are stored as data URLs, videos as blobs
+export interface GenerationCache {
+  get: (key: string) => Promise<string | Blob | undefined>;
+  put: (key: string, entry: { kind: CacheKind; model: string; label: string; value: string | Blob }) => Promise<void>;
+}
+
+export interface CacheOptions {
+  store: GenerationCache;
+  mode: 'use' | 'refresh'; // Refresh always calls the model and replaces what was stored
+  sample?: number; // Tells apart requests that are identical on purpose, e.g. keyframe candidates
+  onHit?: () => void;
+}
+
+export interface VideoGenerationOptions {
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  brand?: BrandKit; // Palette and art-direction constraints appended to the motion prompt
+  fitToFrame?: FitToFrame; // Without it, frames in another aspect ratio are sent as they are
+  onStarted?: (operation: VideoOperation) => void; // Persist the operation here so it can be resumed
+  onFinished?: (name: string) => void; // Fetched, failed, blocked or cancelled; anything else leaves it resumable
+  onRetry?: (error: GenerationError, retry: number, delayMs: number) => void;
+}
+
+const abortError = () => new DOMException("Video generation cancelled.", "AbortError");
+
+export const isAbortError = (error: any) =>
+  error?.name === 'AbortError' || (isGenerationError(error) && error.kind === 'cancelled');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const fromDataUrl = (dataUrl: string): InlineImage => {
+  const [mimeTypePart, data] = dataUrl.split(';base64,');
+  return { data, mimeType: mimeTypePart.replace('data:', '') };
+};
+
+// Content address of a request: the model, the full prompt, every input image's bytes and the config.
+// Undefined where Web Crypto is missing (insecure origins), which simply turns caching off.
+export const generationCacheKey = async (parts: { kind: CacheKind; model: string; prompt: string; images: (InlineImage | undefined)[]; config: object; sample?: number }): Promise<string | undefined> => {
+  if (!globalThis.crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// A broken cache never fails a generation: lookups that throw count as misses and failed writes are dropped
+const withCache = async <T,>(
+  cache: CacheOptions | undefined,
+  parts: Parameters<typeof generationCacheKey>[0],
+  label: string,
+  codec: { encode: (value: T) => string | Blob; decode: (stored: string | Blob) => T },
+  run: () => Promise<T>
+): Promise<T> => {
+  const key = cache ? await generationCacheKey({ ...parts, sample: cache.sample || 0 }) : undefined;
+  if (!cache || !key) return run();
+
+  if (cache.mode === 'use') {
+    try {
+      const stored = await cache.store.get(key);
+      if (stored !== undefined) {
+        cache.onHit?.();
+        return codec.decode(stored);
+      }
+    } catch (e) {
+      console.warn("Could not read the generation cache", e);
+    }
+  }
+  const value = await run();
+  cache.store.put(key, { kind: parts.kind, model: parts.model, label, value: codec.encode(value) })
+    .catch(e => console.warn("Could not write the generation cache", e));
+  return value;
+};
+
+const textCodec = { encode: (value: string) => value, decode: (stored: string | Blob) => String(stored) };
+const imageCodec = {
+  encode: (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`,
+  decode: (stored: string | Blob) => fromDataUrl(String(stored))
+};
+const videoCodec = { encode: (blob: Blob) => blob, decode: (stored: string | Blob) => stored as Blob };
+
+// Black start or end frame for reveal and exit
+const createBlankImage = async (width: number, height: number): Promise<InlineImage> =>
+  ({ data: bytesToBase64(await solidPng(width, height, [0, 0, 0])), mimeType: 'image/png' });
+
+const FORMAT_HINTS: Record<OutputFormat['aspectRatio'], string> = {
+  '16:9': 'Widescreen landscape composition.',
+  '9:16': 'Tall vertical composition for mobile screens; keep the text within the middle of the frame.',
+  '1:1': 'Square composition with the text well inside the frame.'
+};
+
+// An empty art direction would render as "Visual Style: ." so every entry point falls back to a random preset
+export const resolveStyle = (style: string | undefined): string => style?.trim() || getRandomStyle();
+
+export const suggestStyle = async (provider: GenerationProvider, text: string, cache?: CacheOptions): Promise<string> => {
+  const prompt = renderPrompt('style-suggestion', { text: quoteForPrompt(text), textNotes: textPromptNotes(text) });
+  const parts = { kind: 'style' as const, model: `${provider.id}/${provider.models.text}`, prompt, images: [], config: {} };
+  return withCache(cache, parts, normalizeInputText(text), textCodec, async () => {
+    const suggestion = await withRetry(() => provider.suggestStyle(prompt, normalizeInputText(text)), { field: 'text' });
+    if (!suggestion) throw new GenerationError('empty-output', "No style suggestion came back.");
+    return suggestion;
+  });
+};
+
+export interface KeyframeOptions {
+  text: string;
+  style: string;
+  typographyPrompt?: string;
+  referenceImage?: InlineImage;
+  format?: OutputFormat;
+  guide?: GlyphGuide; // Exact font and layout; the caller renders it into guideImage
+  guideImage?: InlineImage;
+  brand?: BrandKit;
+  cache?: CacheOptions;
+  onRetry?: (error: GenerationError, retry: number, delayMs: number) => void;
+}
+
+// Best guess at which input tripped an image safety filter: image categories point at the upload,
+// anything else at the free-form art direction (or the text itself when there is none)
+const blameImageField = (category: string | undefined, hasReference: boolean, style: string): InputField => {
+  if (hasReference && category?.includes('IMAGE')) return 'referenceImage';
+  return style.trim() ? 'style' : 'text';
+};
+
+export const imageTemplateId = (hasReference: boolean): TemplateId => hasReference ? 'image-with-reference' : 'image';
+
+// Also used by the template editor to preview prompts with the current form values
+export const imagePromptVariables = ({ text, style, typographyPrompt, format = DEFAULT_OUTPUT_FORMAT, guide, brand }: Omit<KeyframeOptions, 'referenceImage' | 'guideImage' | 'cache' | 'onRetry'>): TemplateVariables => ({
+  text: quoteForPrompt(text),
+  textNotes: textPromptNotes(text),
+  style,
+  typography: typographyPrompt?.trim() || "High-quality, creative typography that perfectly matches the visual environment. Legible and artistic.",
+  placement: guide ? 'placed exactly as in the layout guide' : 'written in the center',
+  format: FORMAT_HINTS[format.aspectRatio],
+  guide: guide
+    ? `The last attached image is a layout guide: black letters on white. Reproduce its letterforms, font, line breaks, size and position exactly, but render the letters in the visual style described here, not as flat black on white. ${describeGuide(text, guide)}`
+    : '',
+  brand: brand ? brandPromptConstraints(brand, style) : ''
+});
+
+// Also used for keyframe refinements, where the prompt is the edit instruction and the reference the current image
+export const requestImage = (provider: GenerationProvider, request: ImageRequest, { cache, field, onRetry }: { cache?: CacheOptions; field?: InputField; onRetry?: KeyframeOptions['onRetry'] } = {}): Promise<InlineImage> => {
+  const { prompt, referenceImage, guideImage, aspectRatio, imageSize } = request;
+  const parts = { kind: 'image' as const, model: `${provider.id}/${provider.models.image}`, prompt, images: [referenceImage, guideImage], config: { aspectRatio, imageSize } };
+  return withCache(cache, parts, normalizeInputText(request.text), imageCodec, () => withRetry(() => provider.generateImage(request), { field, onRetry }));
+};
+
+export const generateKeyframe = async (provider: GenerationProvider, { referenceImage, guideImage, cache, onRetry, ...options }: KeyframeOptions): Promise<InlineImage> => {
+  const { text, style, format = DEFAULT_OUTPUT_FORMAT } = options;
+  const prompt = renderPrompt(imageTemplateId(!!referenceImage), imagePromptVariables(options));
+
+  try {
+    return await requestImage(provider, {
+      prompt,
+      referenceImage,
+      guideImage,
+      text,
+      style,
+      aspectRatio: format.aspectRatio,
+      imageSize: format.resolution === '1080p' ? '2K' : '1K'
+    }, { cache, onRetry });
+  } catch (e) {
+    const error = classifyError(e);
+    if (error.kind === 'safety' && !error.field) error.field = blameImageField(error.category, !!referenceImage, style);
+    throw error;
+  }
+};
+
+// A failed poll is retried against the same operation; it says nothing about the video itself
+const pollForVideo = async (provider: GenerationProvider, operation: VideoOperation, { signal, timeoutMs = DEFAULT_VIDEO_TIMEOUT_MS, onRetry }: VideoGenerationOptions = {}) => {
+  let op = operation;
+  const startTime = Date.now();
+
+  while (!op.done) {
+    if (Date.now() - startTime > timeoutMs) {
+      throw new GenerationError('timeout', "Video generation timed out. It is still running and will be picked up again next time you open the app.");
+    }
+    await sleep(provider.pollIntervalMs, signal);
+    if (signal?.aborted) throw abortError();
+    const current = op;
+    op = await withRetry(() => provider.pollVideo(current), { signal, onRetry });
+  }
+  return op;
+};
+
+// Turns a finished operation without a video into the matching typed error
+const videoResultError = (op: VideoOperation): GenerationError => {
+  if (op.blockedReason) {
+    return new GenerationError('safety', op.blockedReason, { category: op.blockedReason, field: 'style' });
+  }
+  if (op.error) {
+    const error = classifyError(new Error(op.error));
+    if (error.kind === 'safety' && !error.field) error.field = 'style';
+    return error;
+  }
+  return new GenerationError('empty-output', "The video model returned no video.");
+};
+
+// Waits for a started operation and downloads its video. The operation is only let go once the video is
+// in hand or the model reports a failure or block; polls and downloads that keep failing leave it resumable.
+const finishVideo = async (provider: GenerationProvider, operation: VideoOperation, options: VideoGenerationOptions): Promise<Blob> => {
+  let op: VideoOperation;
+  try {
+    op = await pollForVideo(provider, operation, options);
+  } catch (error) {
+    // Nothing will ever find this operation again, so it stops being resumed
+    if (classifyError(error).kind === 'expired') options.onFinished?.(operation.name);
+    throw error;
+  }
+  if (op.error || op.blockedReason || !op.videoUri) {
+    options.onFinished?.(operation.name);
+    throw videoResultError(op);
+  }
+  const videoUri = op.videoUri;
+  const blob = await withRetry(() => provider.fetchVideo(videoUri), { signal: options.signal, onRetry: options.onRetry });
+  options.onFinished?.(operation.name);
+  return blob;
+};
+
+// Picks up an operation started earlier. Aborting or timing out only stops polling here;
+// onFinished is left uncalled so the caller can try again.
+export const resumeVideo = (provider: GenerationProvider, name: string, options: VideoGenerationOptions = {}): Promise<Blob> =>
+  finishVideo(provider, { name, done: false }, options);
+
+// The Gemini API doesn't accept Veo's generateAudio flag, so silence is asked for in the prompt
+// and the audio track is left out of exports by default
+const soundPrompt = (sound?: SoundOptions) => {
+  if (sound?.silent) return 'The clip is completely silent: no music, no sound effects, no voices.';
+  return sound?.prompt.trim() ? `Sound design: ${sound.prompt.trim().replace(/[.\s]+$/, '')}.` : '';
+};
+
+export const videoTemplateId = (mode: AnimationOptions['mode']): TemplateId => `video-${mode}`;
+
+export const videoPromptVariables = (text: string, promptStyle: string, animation: AnimationOptions, brand?: BrandKit): TemplateVariables => ({
+  text: quoteForPrompt(text),
+  textNotes: textPromptNotes(text, animation.targetText ? [animation.targetText] : []),
+  style: promptStyle,
+  mode: animation.mode,
+  targetText: animation.targetText ? quoteForPrompt(animation.targetText) : '',
+  audio: soundPrompt(animation.sound),
+  brand: brand ? brandPromptConstraints(brand, promptStyle) : ''
+});
+
+// Templates behind a keyframe + video run, stored with the creation so its prompts can be rebuilt
+export const templateSnapshotsFor = (hasReference: boolean, mode: AnimationOptions['mode']) =>
+  getTemplateSnapshots([imageTemplateId(hasReference), videoTemplateId(mode)]);
+
+export const generateVideo = async (
+  provider: GenerationProvider,
+  text: string,
+  keyframe: InlineImage,
+  promptStyle: string,
+  format: OutputFormat = DEFAULT_OUTPUT_FORMAT,
+  animation: AnimationOptions = { mode: 'reveal' },
+  options: VideoGenerationOptions = {}
+): Promise<Blob> => {
+  const { signal, brand, fitToFrame, onStarted, onFinished, onRetry } = options;
+
+  if (!keyframe.data) throw new Error("Image generation failed, cannot generate video.");
+  if (animation.mode === 'transition' && !animation.targetImage) throw new Error("Transition mode needs a second keyframe.");
+  if (animation.mode === 'custom-start' && !animation.startImage) throw new Error("Custom start mode needs a start frame image.");
+
+  const videoAspectRatio = getVideoAspectRatio(format.aspectRatio);
+  const { width, height } = getFrameSize(videoAspectRatio, format.resolution);
+
+  // Keyframes rendered in a different aspect ratio than the video (square) are letterboxed into the frame
+  const toVideoFrame = async (image: InlineImage, forcePad = false): Promise<InlineImage> => {
+    const frame = { data: cleanBase64(image.data), mimeType: image.mimeType };
+    if (!fitToFrame || (!forcePad && videoAspectRatio === format.aspectRatio)) return frame;
+    return fitToFrame(frame, width, height);
+  };
+
+  const keyframeFrame = await toVideoFrame(keyframe);
+
+  let firstFrame: InlineImage;
+  let lastFrame: InlineImage;
+  switch (animation.mode) {
+    case 'exit':
+      firstFrame = keyframeFrame;
+      lastFrame = await createBlankImage(width, height);
+      break;
+    case 'transition':
+      firstFrame = keyframeFrame;
+      lastFrame = await toVideoFrame(animation.targetImage!);
+      break;
+    case 'loop':
+      firstFrame = keyframeFrame;
+      lastFrame = keyframeFrame;
+      break;
+    case 'custom-start':
+      // Uploads can be any size, so always fit them to the video frame
+      firstFrame = await toVideoFrame(fromDataUrl(animation.startImage!), true);
+      lastFrame = keyframeFrame;
+      break;
+    case 'reveal':
+    default:
+      firstFrame = await createBlankImage(width, height);
+      lastFrame = keyframeFrame;
+  }
+
+  // Each mode has its own template describing the motion Veo should interpolate
+  const prompt = renderPrompt(videoTemplateId(animation.mode), videoPromptVariables(text, promptStyle, animation, brand));
+
+  const parts = { kind: 'video' as const, model: `${provider.id}/${provider.models.video}`, prompt, images: [firstFrame, lastFrame], config: { aspectRatio: videoAspectRatio, resolution: format.resolution } };
+
+  // Only starting is retried as a whole: once an operation exists every later retry goes to that same
+  // (paid) operation, so a flaky poll or download never starts a second video
+  return withCache(options.cache, parts, normalizeInputText(text), videoCodec, async () => {
+    const operation = await withRetry(() => {
+      if (signal?.aborted) throw abortError();
+      return provider.startVideo({
+        prompt,
+        text,
+        firstFrame,
+        lastFrame,
+        aspectRatio: videoAspectRatio,
+        resolution: format.resolution
+      });
+    }, { signal, onRetry });
+    onStarted?.(operation);
+
+    try {
+      return await finishVideo(provider, operation, options);
+    } catch (error) {
+      // Cancelling here abandons the video on purpose; other errors leave it tracked so it can be resumed
+      if (classifyError(error).kind === 'cancelled') onFinished?.(operation.name);
+      throw error;
+    }
+  });
+};
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// @ts-ignore
+import { GIFEncoder, quantize, applyPalette, nearestColorIndex } from 'gifenc';
+import type { GifSettings, GifWorkerRequest, GifWorkerResponse } from './gifExport';
+
+interface Frame {
+  data: Uint8ClampedArray;
+  delay: number;
+}
+
+type Palette = number[][];
+
+let frames: Frame[] = [];
+let width = 0;
+let height = 0;
+
+const post = (message: GifWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Samples pixels across every frame so a single palette covers the whole clip and colours don't flicker
+const buildGlobalPalette = (source: Frame[], colors: number): Palette => {
+  const pixelsPerFrame = width * height;
+  const maxSamples = 300000;
+  const stride = Math.max(1, Math.ceil((pixelsPerFrame * source.length) / maxSamples));
+  const samples = new Uint8ClampedArray(Math.ceil(pixelsPerFrame / stride) * source.length * 4);
+  let offset = 0;
+  for (const frame of source) {
+    for (let p = 0; p < pixelsPerFrame; p += stride) {
+      samples.set(frame.data.subarray(p * 4, p * 4 + 4), offset);
+      offset += 4;
+    }
+  }
+  return quantize(samples.subarray(0, offset), colors);
+};
+
+// Floyd-Steinberg error diffusion; nearest-colour lookups are cached per 6-bit RGB bucket
+const ditherFrame = (rgba: Uint8ClampedArray, palette: Palette): Uint8Array => {
+  const index = new Uint8Array(width * height);
+  const working = new Float32Array(rgba.length);
+  working.set(rgba);
+  const cache = new Map<number, number>();
+
+  const spread = (x: number, y: number, er: number, eg: number, eb: number, weight: number) => {
+    if (x < 0 || x >= width || y >= height) return;
+    const i = (y * width + x) * 4;
+    working[i] += er * weight;
+    working[i + 1] += eg * weight;
+    working[i + 2] += eb * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = Math.min(255, Math.max(0, working[i]));
+      const g = Math.min(255, Math.max(0, working[i + 1]));
+      const b = Math.min(255, Math.max(0, working[i + 2]));
+      const key = ((r >> 2) << 12) | ((g >> 2) << 6) | (b >> 2);
+      let nearest = cache.get(key);
+      if (nearest === undefined) {
+        nearest = nearestColorIndex(palette, [r, g, b]) as number;
+        cache.set(key, nearest);
+      }
+      index[y * width + x] = nearest;
+      const [pr, pg, pb] = palette[nearest];
+      const er = r - pr;
+      const eg = g - pg;
+      const eb = b - pb;
+      spread(x + 1, y, er, eg, eb, 7 / 16);
+      spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+      spread(x, y + 1, er, eg, eb, 5 / 16);
+      spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+    }
+  }
+  return index;
+};
+
+// Drops frames for a smaller file while keeping the total duration
+const decimate = (source: Frame[], step: number): Frame[] => {
+  if (step <= 1) return source;
+  const result: Frame[] = [];
+  for (let i = 0; i < source.length; i += step) {
+    const group = source.slice(i, i + step);
+    result.push({ data: group[0].data, delay: group.reduce((sum, f) => sum + f.delay, 0) });
+  }
+  return result;
+};
+
+const encode = (source: Frame[], settings: GifSettings, colors: number, onFrame: (done: number) => void): Uint8Array => {
+  const gif = GIFEncoder();
+  const globalPalette = settings.palette === 'global' ? buildGlobalPalette(source, colors) : null;
+  // GIF repeat: -1 plays once, 0 loops forever, n adds n extra plays
+  const repeat = settings.loop === 0 ? 0 : settings.loop === 1 ? -1 : settings.loop - 1;
+
+  source.forEach((frame, i) => {
+    const palette = globalPalette || quantize(frame.data, colors);
+    const index = settings.dither ? ditherFrame(frame.data, palette) : applyPalette(frame.data, palette);
+    gif.writeFrame(index, width, height, {
+      // Global mode only writes the palette once, as the GIF's global colour table
+      palette: globalPalette && i > 0 ? undefined : palette,
+      delay: frame.delay,
+      repeat
+    });
+    onFrame(i + 1);
+  });
+
+  gif.finish();
+  return gif.bytes();
+};
+
+// Without a target size this is a single pass; with one, each pass trades colours, then frames, for bytes
+const SIZE_PASSES = [
+  { colors: 256, step: 1 },
+  { colors: 128, step: 1 },
+  { colors: 64, step: 1 },
+  { colors: 64, step: 2 },
+  { colors: 32, step: 2 },
+  { colors: 32, step: 3 }
+];
+
+const finish = (settings: GifSettings) => {
+  const targetBytes = settings.targetSizeKb ? settings.targetSizeKb * 1024 : Infinity;
+  const passes = Number.isFinite(targetBytes) ? SIZE_PASSES : SIZE_PASSES.slice(0, 1);
+  let smallest: Uint8Array | null = null;
+
+  for (let p = 0; p < passes.length; p++) {
+    const { colors, step } = passes[p];
+    const source = decimate(frames, step);
+    const bytes = encode(source, settings, colors, (done) => {
+      post({ type: 'progress', value: done / source.length, pass: p + 1 });
+    });
+    if (!smallest || bytes.length < smallest.length) smallest = bytes;
+    if (bytes.length <= targetBytes) break;
+  }
+
+  const buffer = smallest!.slice().buffer;
+  post({ type: 'done', buffer, fitsTarget: smallest!.length <= targetBytes }, [buffer]);
+  frames = [];
+};
+
+self.onmessage = (event: MessageEvent<GifWorkerRequest>) => {
+  const message = event.data;
+  try {
+    switch (message.type) {
+      case 'start':
+        frames = [];
+        width = message.width;
+        height = message.height;
+        break;
+      case 'frame':
+        frames.push({ data: new Uint8ClampedArray(message.buffer), delay: message.delay });
+        break;
+      case 'extend':
+        // The previous frame is held longer instead of being duplicated
+        if (frames.length) frames[frames.length - 1].delay += message.delay;
+        break;
+      case 'finish':
+        if (!frames.length) throw new Error("No frames could be read from the video.");
+        finish(message.settings);
+        break;
+    }
+  } catch (e: any) {
+    post({ type: 'error', message: e?.message || "GIF encoding failed." });
+  }
+};
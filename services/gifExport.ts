@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AspectRatio } from "../types";
+import { cancelledError, openFrameReader, readFrames } from "./videoFrames";
+import { ClipEdits } from "./clipEdits";
+
+export interface GifSettings {
+  width: number; // Output width in px; the height follows the aspect ratio
+  fps: number;
+  dither: boolean;
+  palette: 'global' | 'per-frame';
+  loop: number; // Total plays, 0 = forever
+  targetSizeKb?: number;
+}
+
+export const DEFAULT_GIF_SETTINGS: GifSettings = {
+  width: 400,
+  fps: 10,
+  dither: false,
+  palette: 'global',
+  loop: 0
+};
+
+export const GIF_WIDTH_OPTIONS = [240, 320, 400, 480, 640];
+export const GIF_FPS_OPTIONS = [8, 10, 12, 15, 20];
+
+export type GifWorkerRequest =
+  | { type: 'start'; width: number; height: number }
+  | { type: 'frame'; buffer: ArrayBuffer; delay: number }
+  | { type: 'extend'; delay: number }
+  | { type: 'finish'; settings: GifSettings };
+
+export type GifWorkerResponse =
+  | { type: 'progress'; value: number; pass: number }
+  | { type: 'done'; buffer: ArrayBuffer; fitsTarget: boolean }
+  | { type: 'error'; message: string };
+
+export interface GifProgress {
+  stage: 'reading' | 'encoding';
+  value: number; // 0..1 within the stage
+  pass?: number; // Encoding pass, above 1 while shrinking towards the target size
+}
+
+export interface GifResult {
+  blob: Blob;
+  fitsTarget: boolean;
+}
+
+interface GifExportOptions {
+  aspectRatio?: AspectRatio;
+  edits?: ClipEdits;
+  settings?: GifSettings;
+  logo?: string; // Data URL stamped on every frame
+  signal?: AbortSignal;
+  onProgress?: (progress: GifProgress) => void;
+}
+
+// Frames are read on the main thread (video decoding needs the DOM) and handed to a worker that
+// quantizes and encodes them, so the page stays responsive while the GIF is built.
+export const createGifFromVideo = async (videoUrl: string, { aspectRatio, edits, settings = DEFAULT_GIF_SETTINGS, logo, signal, onProgress }: GifExportOptions = {}): Promise<GifResult> => {
+  if (signal?.aborted) throw cancelledError("GIF export");
+  const reader = await openFrameReader(videoUrl, { aspectRatio, maxWidth: settings.width, logo });
+
+  const worker = new Worker(new URL('./gifEncoder.worker.ts', import.meta.url), { type: 'module' });
+  const send = (message: GifWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  return new Promise<GifResult>((resolve, reject) => {
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+      fn();
+    };
+    const onAbort = () => settle(() => reject(cancelledError("GIF export")));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<GifWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.({ stage: 'encoding', value: message.value, pass: message.pass });
+      } else if (message.type === 'done') {
+        settle(() => resolve({ blob: new Blob([message.buffer], { type: 'image/gif' }), fitsTarget: message.fitsTarget }));
+      } else {
+        settle(() => reject(new Error(message.message)));
+      }
+    };
+    worker.onerror = (event) => settle(() => reject(new Error(event.message || "GIF worker failed to start.")));
+
+    const readAll = async () => {
+      const { width, height, ctx } = reader;
+      send({ type: 'start', width, height });
+      await readFrames(reader, { fps: settings.fps, edits, signal, onProgress: (value) => onProgress?.({ stage: 'reading', value }) }, (_, fresh, delay) => {
+        if (settled) return;
+        if (!fresh) {
+          // A held or stuck frame would repeat the previous image, so show that frame longer instead
+          send({ type: 'extend', delay });
+          return;
+        }
+        const { data } = ctx.getImageData(0, 0, width, height);
+        send({ type: 'frame', buffer: data.buffer, delay }, [data.buffer]);
+      });
+      if (!settled) send({ type: 'finish', settings });
+    };
+
+    readAll().catch((e) => settle(() => reject(e)));
+  });
+};
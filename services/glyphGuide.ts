@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AspectRatio } from "../types";
+import { cleanBase64, fileToBase64, getFrameSize } from "../utils";
+import { InlineImage } from "./providers";
+import { detectScripts, quoteForPrompt, textLines } from "./textInput";
+
+export type GuideAlign = 'left' | 'center' | 'right';
+export type GuideVertical = 'top' | 'middle' | 'bottom';
+
+export interface GuideFont {
+  family: string; // CSS font-family, including fallbacks for built-ins
+  label: string;
+  dataUrl?: string; // Uploaded font file; registered with document.fonts before drawing
+}
+
+// Exact layout the model is asked to follow: the text is drawn locally with this font and placement
+// and sent along as a black-on-white structural reference
+export interface GlyphGuide {
+  font: GuideFont;
+  weight: number;
+  align: GuideAlign;
+  vertical: GuideVertical;
+  lineBreaks: string; // The text with newlines where lines should break; empty keeps one line
+  margin: number; // Safe-area inset as a fraction of the short edge
+  scale: number; // Share of the safe area the widest line may fill
+}
+
+export const BUILTIN_FONTS: GuideFont[] = [
+  { family: 'Helvetica, Arial, sans-serif', label: 'Sans' },
+  { family: 'Georgia, "Times New Roman", serif', label: 'Serif' },
+  { family: 'Impact, "Arial Black", sans-serif', label: 'Condensed' },
+  { family: '"Courier New", Courier, monospace', label: 'Mono' },
+  { family: '"Brush Script MT", "Segoe Script", cursive', label: 'Script' }
+];
+
+export const GUIDE_WEIGHTS = [400, 700, 900];
+export const GUIDE_MARGINS = [0.05, 0.1, 0.2];
+export const GUIDE_SCALES = [0.5, 0.75, 1];
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+export const DEFAULT_GLYPH_GUIDE: GlyphGuide = {
+  font: BUILTIN_FONTS[0],
+  weight: 700,
+  align: 'center',
+  vertical: 'middle',
+  lineBreaks: '',
+  margin: 0.1,
+  scale: 0.75
+};
+
+const LINE_HEIGHT = 1.15;
+const FONT_EXTENSIONS = /\.(ttf|otf|woff2?)$/i;
+
+const words = (value: string) => value.split(/\s+/).filter(Boolean);
+
+// Line breaks only apply while they still spell the current text; edit the text and they fall back to one line
+export const lineBreaksMatch = (text: string, lineBreaks: string) =>
+  words(text).join(' ') === words(lineBreaks).join(' ');
+
+export const guideLines = (text: string, guide: GlyphGuide): string[] => {
+  if (!guide.lineBreaks.trim() || !lineBreaksMatch(text, guide.lineBreaks)) return textLines(text);
+  return guide.lineBreaks.split('\n').map(line => words(line).join(' ')).filter(Boolean);
+};
+
+const loadedFonts = new Set<string>();
+
+// Uploaded fonts are embedded; browsers label them font/* or application/* (octet-stream when unsure)
+export const isFontDataUrl = (value: string) => value.startsWith('data:font/') || value.startsWith('data:application/');
+
+const ensureFontLoaded = async (font: GuideFont) => {
+  if (!font.dataUrl || loadedFonts.has(font.family)) return;
+  // Never fetch anything else, e.g. a URL smuggled in through a shared brand kit
+  if (!isFontDataUrl(font.dataUrl)) throw new Error(`The "${font.label}" font isn't embedded.`);
+  const buffer = await (await fetch(font.dataUrl)).arrayBuffer();
+  const face = new FontFace(font.family, buffer);
+  await face.load();
+  document.fonts.add(face);
+  loadedFonts.add(font.family);
+};
+
+// Built-ins are already CSS family lists; an uploaded family is a bare name that may hold spaces, digits or
+// punctuation, which the canvas only accepts quoted
+const cssFontFamily = (font: GuideFont) =>
+  font.dataUrl ? `"${font.family.replace(/["\\]/g, '\\$&')}"` : font.family;
+
+// Reads an uploaded TTF/OTF/WOFF/WOFF2 file and registers it under a family name derived from the file name
+export const loadFontFile = async (file: File): Promise<GuideFont> => {
+  if (!FONT_EXTENSIONS.test(file.name)) {
+    throw new Error("Upload a TTF, OTF, WOFF or WOFF2 font file.");
+  }
+  const label = file.name.replace(FONT_EXTENSIONS, '');
+  const font: GuideFont = { family: `Guide ${label}`, label, dataUrl: await fileToBase64(file) };
+  try {
+    await ensureFontLoaded(font);
+  } catch (e) {
+    throw new Error(`Could not read "${file.name}" as a font.`);
+  }
+  return font;
+};
+
+// Short layout description for the prompt, so the model knows what the guide image is for
+export const describeGuide = (text: string, guide: GlyphGuide): string => {
+  const lines = guideLines(text, guide);
+  const breaks = lines.length > 1 ? `broken over ${lines.length} lines exactly as shown (${lines.map(l => `"${quoteForPrompt(l)}"`).join(' / ')})` : 'on a single line';
+  return `The text is set ${breaks}, ${guide.align}-aligned, placed ${guide.vertical === 'middle' ? 'in the vertical middle' : `at the ${guide.vertical}`} of the frame.`;
+};
+
+// Draws the text black on white at frame size; the result doubles as the UI preview
+export const renderGlyphGuide = async (text: string, guide: GlyphGuide, aspectRatio: AspectRatio): Promise<InlineImage> => {
+  await ensureFontLoaded(guide.font);
+  const { width, height } = getFrameSize(aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  const inset = Math.min(width, height) * guide.margin;
+  const safeWidth = width - inset * 2;
+  const safeHeight = height - inset * 2;
+  const lines = guideLines(text, guide);
+
+  // Measure at a reference size, then scale so the widest line and the whole block fit the safe area
+  const setFont = (size: number) => { ctx.font = `${guide.weight} ${size}px ${cssFontFamily(guide.font)}`; };
+  setFont(100);
+  const widest = Math.max(1, ...lines.map(line => ctx.measureText(line).width));
+  const fontSize = Math.min((safeWidth * guide.scale / widest) * 100, safeHeight / (lines.length * LINE_HEIGHT));
+  setFont(fontSize);
+
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const blockHeight = lineHeight * lines.length;
+  const top = guide.vertical === 'top' ? inset
+    : guide.vertical === 'bottom' ? height - inset - blockHeight
+    : (height - blockHeight) / 2;
+  const x = guide.align === 'left' ? inset : guide.align === 'right' ? width - inset : width / 2;
+
+  ctx.fillStyle = '#000000';
+  // Bidi ordering follows the base direction; alignment stays physical so "left" means left either way
+  ctx.direction = detectScripts(text).rtl ? 'rtl' : 'ltr';
+  ctx.textAlign = guide.align;
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, x, top + lineHeight * (i + 0.5)));
+
+  return { data: cleanBase64(canvas.toDataURL('image/png')), mimeType: 'image/png' };
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CreationRecord } from "../types";
+import { CREATIONS_STORE, withStore } from "./database";
+
+const withCreations = <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+  withStore<T>(CREATIONS_STORE, mode, run);
+
+export const createCreationId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveCreation = async (record: CreationRecord): Promise<void> => {
+  await withCreations('readwrite', store => store.put(record));
+};
+
+export const updateCreation = async (id: string, changes: Partial<CreationRecord>): Promise<CreationRecord | undefined> => {
+  const existing = await getCreation(id);
+  if (!existing) return undefined;
+  const updated = { ...existing, ...changes, id };
+  await saveCreation(updated);
+  return updated;
+};
+
+export const getCreation = (id: string): Promise<CreationRecord | undefined> =>
+  withCreations('readonly', store => store.get(id));
+
+// Newest first
+export const listCreations = async (): Promise<CreationRecord[]> => {
+  const records = await withCreations<CreationRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCreation = async (id: string): Promise<void> => {
+  await withCreations('readwrite', store => store.delete(id));
+};
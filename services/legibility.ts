@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CacheRequest, generateTextImage } from "./geminiService";
+import { GlyphGuide } from "./glyphGuide";
+import { BrandKit } from "./brandKits";
+import { getProvider } from "./providers";
+import { KeyframeImage, LegibilityResult, OutputFormat } from "../types";
+import { cleanBase64 } from "../utils";
+
+export interface LegibilityChecker {
+  id: string;
+  readText: (image: KeyframeImage) => Promise<string>;
+}
+
+const READ_TEXT_PROMPT = `Read all text rendered in this image exactly as it appears, preserving the spelling letter by letter.
+      Do not correct mistakes. Output ONLY the text, with no quotes or commentary. If no text is legible, output nothing.`;
+
+// Default checker: asks whichever generation provider is active to read the image back
+export const providerLegibilityChecker: LegibilityChecker = {
+  id: 'provider',
+  readText: (image) => getProvider().readImageText(READ_TEXT_PROMPT, { data: cleanBase64(image.data), mimeType: image.mimeType })
+};
+
+// Stand-in for tests and demos: returns whatever `read` says the image contains
+export const createStubLegibilityChecker = (read: (image: KeyframeImage) => string | Promise<string>): LegibilityChecker => ({
+  id: 'stub',
+  readText: async (image) => read(image)
+});
+
+let activeChecker: LegibilityChecker = providerLegibilityChecker;
+
+export const getLegibilityChecker = () => activeChecker;
+
+export const setLegibilityChecker = (checker: LegibilityChecker) => {
+  activeChecker = checker;
+};
+
+export const normalizeForComparison = (value: string): string =>
+  value
+    .normalize('NFKC')
+    .replace(/^["'“”‘’]+|["'“”‘’]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLocaleLowerCase();
+
+const levenshtein = (a: string[], b: string[]): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Similarity in 0..1, compared per code point so emoji and CJK count as one character each
+export const scoreTextMatch = (expected: string, read: string): number => {
+  const a = Array.from(normalizeForComparison(expected));
+  const b = Array.from(normalizeForComparison(read));
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+};
+
+export const checkLegibility = async (image: KeyframeImage, expected: string, attempts = 1): Promise<LegibilityResult> => {
+  const read = await getLegibilityChecker().readText(image);
+  return { expected, read, score: scoreTextMatch(expected, read), attempts };
+};
+
+interface VerifiedImageOptions extends CacheRequest {
+  text: string;
+  style: string;
+  typographyPrompt?: string;
+  referenceImage?: string; // Full Data URL
+  format?: OutputFormat;
+  guide?: GlyphGuide;
+  brand?: BrandKit;
+  maxAttempts: number;
+  onAttempt?: (attempt: number, result: LegibilityResult) => void;
+}
+
+// Regenerates until the rendered text reads back exactly, keeping the best attempt if none match.
+// A checker failure never blocks generation; the image is simply returned unverified.
+export const generateVerifiedTextImage = async ({ maxAttempts, onAttempt, ...options }: VerifiedImageOptions): Promise<{ image: KeyframeImage; legibility?: LegibilityResult }> => {
+  let best: { image: KeyframeImage; legibility?: LegibilityResult } | null = null;
+  let attemptsUsed = 0;
+
+  for (let attempt = 1; attempt <= Math.max(1, maxAttempts); attempt++) {
+    attemptsUsed = attempt;
+    // Every attempt is its own cache sample, so a retry never gets the same cached image back
+    const image = await generateTextImage({ ...options, sample: (options.sample || 0) * maxAttempts + attempt - 1 });
+    let legibility: LegibilityResult;
+    try {
+      legibility = await checkLegibility(image, options.text, attempt);
+    } catch (e) {
+      console.warn("Legibility check failed", e);
+      return best || { image };
+    }
+    onAttempt?.(attempt, legibility);
+    if (!best?.legibility || legibility.score > best.legibility.score) {
+      best = { image, legibility };
+    }
+    if (legibility.score === 1) break;
+  }
+
+  return { image: best!.image, legibility: best!.legibility && { ...best!.legibility, attempts: attemptsUsed } };
+};
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ProviderId } from "./providers";
+
+// Video operations keep running (and billing) server-side even if the tab goes away,
+// so every in-flight operation is written to localStorage until its result is fetched.
+
+export interface PendingVideoOperation {
+  name: string;
+  providerId: ProviderId;
+  text: string;
+  startedAt: number;
+  creationId?: string; // History record waiting for this video
+}
+
+const PENDING_OPERATIONS_KEY = 'typemotion.pendingOperations';
+
+export const listPendingOperations = (): PendingVideoOperation[] => {
+  try {
+    const raw = localStorage.getItem(PENDING_OPERATIONS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Could not read pending video operations", e);
+    return [];
+  }
+};
+
+const writePendingOperations = (operations: PendingVideoOperation[]) => {
+  try {
+    localStorage.setItem(PENDING_OPERATIONS_KEY, JSON.stringify(operations));
+  } catch (e) {
+    console.warn("Could not persist pending video operations", e);
+  }
+};
+
+export const trackOperation = (operation: PendingVideoOperation) => {
+  writePendingOperations([...listPendingOperations().filter(op => op.name !== operation.name), operation]);
+};
+
+export const untrackOperation = (name: string) => {
+  writePendingOperations(listPendingOperations().filter(op => op.name !== name));
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { crc32 } from "../utils";
+
+// PNG and APNG assembly without a canvas, so it works in the browser and in Node alike
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readPngChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+const uint32Bytes = (...values: number[]) => {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  values.forEach((v, i) => view.setUint32(i * 4, v));
+  return out;
+};
+
+// zlib format, which is what IDAT expects; CompressionStream exists in browsers and Node 18+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Encodes 8-bit RGBA pixels (row by row, no padding) as a PNG
+export const encodePng = async (width: number, height: number, rgba: Uint8Array): Promise<Uint8Array> => {
+  const rowLength = width * 4;
+  const raw = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    // Filter type 0 (none) before each row
+    raw.set(rgba.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8); // Bit depth, RGBA, deflate, adaptive filtering, no interlace
+
+  const parts = [PNG_SIGNATURE, pngChunk('IHDR', header), pngChunk('IDAT', await deflate(raw)), pngChunk('IEND', new Uint8Array(0))];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const solidPng = (width: number, height: number, [r, g, b]: [number, number, number]): Promise<Uint8Array> => {
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < rgba.length; i += 4) rgba.set([r, g, b, 255], i);
+  return encodePng(width, height, rgba);
+};
+
+// Each frame is an encoded PNG of the same size; its IDAT data becomes an fdAT chunk in the animation
+export const assembleApng = (frames: { png: Uint8Array; delayMs: number }[], width: number, height: number): Blob => {
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+  let sequence = 0;
+  frames.forEach(({ png, delayMs }, i) => {
+    const chunks = readPngChunks(png);
+    if (i === 0) {
+      parts.push(pngChunk('IHDR', chunks.find(c => c.type === 'IHDR')!.data));
+      parts.push(pngChunk('acTL', uint32Bytes(frames.length, 0)));
+    }
+    const control = new Uint8Array(26);
+    const view = new DataView(control.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint16(20, Math.round(delayMs));
+    view.setUint16(22, 1000);
+    parts.push(pngChunk('fcTL', control));
+    for (const chunk of chunks.filter(c => c.type === 'IDAT')) {
+      if (i === 0) {
+        parts.push(pngChunk('IDAT', chunk.data));
+      } else {
+        const data = new Uint8Array(4 + chunk.data.length);
+        new DataView(data.buffer).setUint32(0, sequence++);
+        data.set(chunk.data, 4);
+        parts.push(pngChunk('fdAT', data));
+      }
+    }
+  });
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/apng' });
+};
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type PresetKind = 'style' | 'typography';
+
+export interface Preset {
+  id: string;
+  kind: PresetKind;
+  label: string;
+  prompt: string;
+  category: string;
+  tags: string[];
+  swatch: [string, string]; // Gradient used as the thumbnail when there is no image
+  thumbnail?: string; // Data URL, e.g. a small JPEG of the keyframe a user preset was saved from
+  custom?: boolean;
+}
+
+export interface PresetFilter {
+  kind?: PresetKind;
+  query?: string;
+  category?: string;
+  favouritesOnly?: boolean;
+}
+
+interface PresetStore {
+  favourites: string[];
+  custom: Preset[];
+}
+
+export const PRESET_CATEGORIES = ['Nature', 'Cosmic', 'Urban', 'Material', 'Craft', 'Fantasy', 'Dimensional', 'Editorial', 'Expressive', 'Retro', 'Custom'];
+
+export const BUILTIN_PRESETS: Preset[] = [
+  { id: 'style-clouds', kind: 'style', label: 'Cloud formations', prompt: 'formed by fluffy white clouds in a deep blue summer sky', category: 'Nature', tags: ['sky', 'soft', 'daylight'], swatch: ['#93c5fd', '#f8fafc'] },
+  { id: 'style-constellations', kind: 'style', label: 'Constellations', prompt: 'written in glowing constellations against a dark nebula galaxy', category: 'Cosmic', tags: ['space', 'stars', 'night', 'glow'], swatch: ['#1e1b4b', '#a78bfa'] },
+  { id: 'style-autumn-leaves', kind: 'style', label: 'Autumn leaves', prompt: 'arranged using colorful autumn leaves on wet green grass', category: 'Nature', tags: ['seasonal', 'organic', 'warm'], swatch: ['#ea580c', '#166534'] },
+  { id: 'style-neon-puddles', kind: 'style', label: 'Neon puddles', prompt: 'reflected in cyberpunk neon puddles on a rainy street', category: 'Urban', tags: ['cyberpunk', 'night', 'rain', 'glow'], swatch: ['#db2777', '#0e7490'] },
+  { id: 'style-latte-art', kind: 'style', label: 'Latte art', prompt: 'drawn with latte art foam in a ceramic coffee cup', category: 'Craft', tags: ['food', 'cozy', 'warm'], swatch: ['#78350f', '#fef3c7'] },
+  { id: 'style-runes', kind: 'style', label: 'Cave runes', prompt: 'glowing as ancient magical runes carved into a dark cave wall', category: 'Fantasy', tags: ['magic', 'ancient', 'glow', 'dark'], swatch: ['#0f172a', '#22d3ee'] },
+  { id: 'style-hologram', kind: 'style', label: 'Hologram', prompt: 'displayed on a futuristic translucent holographic interface', category: 'Urban', tags: ['sci-fi', 'tech', 'glow'], swatch: ['#0c4a6e', '#67e8f9'] },
+  { id: 'style-melting-gold', kind: 'style', label: 'Melting gold', prompt: 'sculpted from melting surrealist gold in a desert landscape', category: 'Material', tags: ['metal', 'surreal', 'warm', 'luxury'], swatch: ['#a16207', '#fde68a'] },
+  { id: 'style-steampunk', kind: 'style', label: 'Steampunk gears', prompt: 'arranged with intricate mechanical gears and steampunk machinery', category: 'Material', tags: ['metal', 'mechanical', 'vintage'], swatch: ['#451a03', '#d97706'] },
+  { id: 'style-jellyfish', kind: 'style', label: 'Bioluminescence', prompt: 'formed by bioluminescent jellyfish in the deep ocean', category: 'Nature', tags: ['ocean', 'glow', 'night'], swatch: ['#082f49', '#2dd4bf'] },
+  { id: 'style-smoke', kind: 'style', label: 'Colourful smoke', prompt: 'composed of vibrant colorful smoke swirling in a dark room', category: 'Expressive', tags: ['smoke', 'vibrant', 'dark'], swatch: ['#7c3aed', '#f43f5e'] },
+  { id: 'style-oak-bark', kind: 'style', label: 'Oak bark', prompt: 'carved into the bark of an ancient mossy oak tree', category: 'Nature', tags: ['forest', 'organic', 'ancient'], swatch: ['#3f2d1c', '#4d7c0f'] },
+  { id: 'style-diamonds', kind: 'style', label: 'Diamonds', prompt: 'made of sparkling diamonds scattered on black velvet', category: 'Material', tags: ['luxury', 'sparkle', 'dark'], swatch: ['#0a0a0a', '#e0f2fe'] },
+  { id: 'typo-cinematic-3d', kind: 'typography', label: 'Cinematic 3D', prompt: 'Bold, dimensional 3D text with realistic lighting and shadows', category: 'Dimensional', tags: ['3d', 'bold', 'cinematic'], swatch: ['#27272a', '#d4d4d8'] },
+  { id: 'typo-neon-cyber', kind: 'typography', label: 'Neon Cyber', prompt: 'Glowing neon tube typography, cyberpunk aesthetic, vibrant bloom', category: 'Retro', tags: ['neon', 'cyberpunk', 'glow'], swatch: ['#4c1d95', '#f0abfc'] },
+  { id: 'typo-elegant-serif', kind: 'typography', label: 'Elegant Serif', prompt: 'Refined, high-contrast serif typography, luxury editorial look', category: 'Editorial', tags: ['serif', 'luxury', 'minimal'], swatch: ['#fafaf9', '#57534e'] },
+  { id: 'typo-bold-sans', kind: 'typography', label: 'Bold Sans', prompt: 'Massive, heavy sans-serif typography, geometric and impactful', category: 'Editorial', tags: ['sans', 'bold', 'minimal'], swatch: ['#171717', '#f5f5f5'] },
+  { id: 'typo-handwritten', kind: 'typography', label: 'Handwritten', prompt: 'Organic, flowing handwritten brush script, artistic and personal', category: 'Expressive', tags: ['script', 'organic', 'brush'], swatch: ['#fef2f2', '#9f1239'] },
+  { id: 'typo-retro-80s', kind: 'typography', label: 'Retro 80s', prompt: 'Chrome-plated, synthwave style typography with horizon lines and sparkles', category: 'Retro', tags: ['synthwave', 'chrome', '80s'], swatch: ['#312e81', '#f472b6'] },
+  { id: 'typo-liquid-metal', kind: 'typography', label: 'Liquid Metal', prompt: 'Fluid, melting chrome typography, surreal and reflective', category: 'Dimensional', tags: ['chrome', 'metal', 'surreal'], swatch: ['#52525b', '#f4f4f5'] },
+  { id: 'typo-botanical', kind: 'typography', label: 'Botanical', prompt: 'Typography intertwined with vines, flowers, and organic nature elements', category: 'Expressive', tags: ['nature', 'organic', 'floral'], swatch: ['#14532d', '#fbcfe8'] }
+];
+
+const PRESETS_KEY = 'typemotion.presets';
+const THUMBNAIL_SIZE = 160;
+
+const readStore = (): PresetStore => {
+  // The CLI shares the random style fallback, with only the built-in presets
+  if (typeof localStorage === 'undefined') return { favourites: [], custom: [] };
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return {
+      favourites: Array.isArray(parsed?.favourites) ? parsed.favourites : [],
+      custom: Array.isArray(parsed?.custom) ? parsed.custom : []
+    };
+  } catch (e) {
+    console.warn("Could not read presets", e);
+    return { favourites: [], custom: [] };
+  }
+};
+
+const writeStore = (store: PresetStore): boolean => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(store));
+    return true;
+  } catch (e) {
+    console.warn("Could not persist presets", e);
+    return false;
+  }
+};
+
+// Keyframes are megabytes of PNG; localStorage only holds a few, so presets keep a small JPEG instead
+const createThumbnail = (dataUrl: string): Promise<string> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return reject(new Error("Could not get canvas context"));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/jpeg', 0.8));
+  };
+  img.onerror = () => reject(new Error("Could not decode the preset thumbnail"));
+  img.src = dataUrl;
+});
+
+// User presets first, so the newest additions are easy to find
+export const listPresets = (kind?: PresetKind): Preset[] => {
+  const all = [...readStore().custom, ...BUILTIN_PRESETS];
+  return kind ? all.filter(p => p.kind === kind) : all;
+};
+
+export const listFavourites = (): string[] => readStore().favourites;
+
+export const toggleFavourite = (id: string): string[] => {
+  const store = readStore();
+  store.favourites = store.favourites.includes(id) ? store.favourites.filter(f => f !== id) : [...store.favourites, id];
+  writeStore(store);
+  return store.favourites;
+};
+
+export const saveUserPreset = async (preset: Omit<Preset, 'id' | 'custom' | 'swatch'> & { swatch?: [string, string] }): Promise<Preset> => {
+  const thumbnail = preset.thumbnail ? await createThumbnail(preset.thumbnail) : undefined;
+  // Read only after the await, so favourites toggled or presets saved meanwhile aren't overwritten
+  const store = readStore();
+  const saved: Preset = {
+    swatch: ['#44403c', '#a8a29e'],
+    ...preset,
+    thumbnail,
+    id: `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    custom: true
+  };
+  store.custom = [saved, ...store.custom];
+  if (!writeStore(store)) {
+    throw new Error("Could not save the preset. Browser storage may be full; delete some presets and try again.");
+  }
+  return saved;
+};
+
+export const deleteUserPreset = (id: string) => {
+  const store = readStore();
+  store.custom = store.custom.filter(p => p.id !== id);
+  store.favourites = store.favourites.filter(f => f !== id);
+  writeStore(store);
+};
+
+// Every word of the query has to match somewhere in the label, prompt, category or tags
+export const filterPresets = (presets: Preset[], { kind, query = '', category, favouritesOnly }: PresetFilter, favourites: string[] = []): Preset[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return presets.filter(p => {
+    if (kind && p.kind !== kind) return false;
+    if (category && p.category !== category) return false;
+    if (favouritesOnly && !favourites.includes(p.id)) return false;
+    const haystack = [p.label, p.prompt, p.category, ...p.tags].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const pickRandomPreset = (presets: Preset[]): Preset | undefined =>
+  presets[Math.floor(Math.random() * presets.length)];
+
+// Fallback art direction when the form is left empty
+export const getRandomStyle = (): string => pickRandomPreset(listPresets('style'))!.prompt;
+
+// Combining appends to what's already there instead of replacing it
+export const combinePrompts = (current: string, addition: string): string => {
+  const trimmed = current.trim().replace(/[.,;]+$/, '');
+  if (!trimmed) return addition;
+  if (trimmed.toLowerCase().includes(addition.toLowerCase())) return current;
+  return `${trimmed}, ${addition}`;
+};
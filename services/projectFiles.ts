@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AnimationMode, AspectRatio, CreationRecord, OutputFormat, SoundOptions, TemplateSnapshot, VideoResolution } from "../types";
+import { DEFAULT_OUTPUT_FORMAT, slugify } from "../utils";
+import { getTemplate, sanitizeTemplateSnapshots, templateHash, TemplateId } from "./promptTemplates";
+import { createCreationId } from "./historyStore";
+import { normalizeInputText } from "./textInput";
+
+// Everything needed to make the same thing again, minus the media
+export interface Recipe {
+  text: string;
+  style: string;
+  typographyPrompt: string;
+  format: OutputFormat;
+  animationMode: AnimationMode;
+  targetText?: string;
+  sound?: SoundOptions;
+  provider?: string;
+  models?: CreationRecord['models'];
+  promptTemplates?: Partial<Record<TemplateId, TemplateSnapshot>>;
+}
+
+interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  recipe: Recipe;
+  createdAt: number;
+  refinements?: string[];
+  keyframeImage?: string; // Full Data URL
+  referenceImage?: string; // Full Data URL
+  startImage?: string; // Full Data URL
+  video?: string; // Full Data URL
+}
+
+export const PROJECT_FILE_EXTENSION = '.typemotion.json';
+const PROJECT_FILE_FORMAT = 'typemotion.project';
+const PROJECT_FILE_VERSION = 1;
+const RECIPE_HASH_PREFIX = '#r=';
+
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1'];
+const RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+const ANIMATION_MODES: AnimationMode[] = ['reveal', 'exit', 'transition', 'loop', 'custom-start'];
+
+export const recipeFromRecord = (record: CreationRecord): Recipe => ({
+  text: record.text,
+  style: record.style,
+  typographyPrompt: record.typographyPrompt,
+  format: record.format || DEFAULT_OUTPUT_FORMAT,
+  animationMode: record.animationMode || 'reveal',
+  targetText: record.targetText,
+  sound: record.sound,
+  provider: record.provider,
+  models: record.models,
+  promptTemplates: sanitizeTemplateSnapshots(record.promptTemplates)
+});
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error || new Error("Could not read video"));
+  reader.readAsDataURL(blob);
+});
+
+export const exportProject = async (record: CreationRecord): Promise<Blob> => {
+  const project: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    recipe: recipeFromRecord(record),
+    createdAt: record.createdAt,
+    refinements: record.refinements,
+    keyframeImage: record.keyframeImage,
+    referenceImage: record.referenceImage,
+    startImage: record.startImage,
+    video: record.videoBlob ? await blobToDataUrl(record.videoBlob) : undefined
+  };
+  return new Blob([JSON.stringify(project)], { type: 'application/json' });
+};
+
+// Written next to the CLI's output files: a project file with the media left out, so History can still import it
+export const projectSidecar = (recipe: Recipe, details: { createdAt: number; files: Record<string, string>; prompts: Record<string, string> }) => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  recipe,
+  ...details
+});
+
+export const projectFileName = (record: CreationRecord) =>
+  `${slugify(record.text)}${PROJECT_FILE_EXTENSION}`;
+
+const asString = (value: unknown) => typeof value === 'string' ? value : undefined;
+const asDataUrl = (value: unknown, kind: 'image' | 'video') => {
+  const s = asString(value);
+  return s?.startsWith(`data:${kind}/`) ? s : undefined;
+};
+
+// Missing or unknown settings fall back to defaults rather than failing the whole import
+const sanitizeRecipe = (raw: any): Recipe | null => {
+  const text = normalizeInputText(asString(raw?.text) || '');
+  if (!text) return null;
+  return {
+    text,
+    style: asString(raw.style) || '',
+    typographyPrompt: asString(raw.typographyPrompt) || '',
+    format: {
+      aspectRatio: ASPECT_RATIOS.includes(raw.format?.aspectRatio) ? raw.format.aspectRatio : DEFAULT_OUTPUT_FORMAT.aspectRatio,
+      resolution: RESOLUTIONS.includes(raw.format?.resolution) ? raw.format.resolution : DEFAULT_OUTPUT_FORMAT.resolution
+    },
+    animationMode: ANIMATION_MODES.includes(raw.animationMode) ? raw.animationMode : 'reveal',
+    targetText: normalizeInputText(asString(raw.targetText) || '') || undefined,
+    sound: raw.sound && typeof raw.sound === 'object' ? { prompt: asString(raw.sound.prompt) || '', silent: raw.sound.silent === true } : undefined,
+    provider: asString(raw.provider),
+    models: raw.models && typeof raw.models.image === 'string' ? raw.models : undefined,
+    promptTemplates: sanitizeTemplateSnapshots(raw.promptTemplates)
+  };
+};
+
+// Imported projects become new history records, so opening the same file twice never overwrites anything
+export const parseProject = async (json: string): Promise<CreationRecord> => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error("That file isn't valid JSON.");
+  }
+  if (data?.format !== PROJECT_FILE_FORMAT) throw new Error("That isn't a TypeMotion project file.");
+  if (data.version > PROJECT_FILE_VERSION) throw new Error("This project was saved by a newer version of the app.");
+  const recipe = sanitizeRecipe(data.recipe);
+  if (!recipe) throw new Error("The project file has no text.");
+
+  const video = asDataUrl(data.video, 'video');
+  return {
+    id: createCreationId(),
+    text: recipe.text,
+    style: recipe.style,
+    typographyPrompt: recipe.typographyPrompt,
+    referenceImage: asDataUrl(data.referenceImage, 'image'),
+    keyframeImage: asDataUrl(data.keyframeImage, 'image'),
+    refinements: Array.isArray(data.refinements) ? data.refinements.filter((r: unknown) => typeof r === 'string') : undefined,
+    videoBlob: video ? await (await fetch(video)).blob() : undefined,
+    animationMode: recipe.animationMode,
+    targetText: recipe.targetText,
+    sound: recipe.sound,
+    startImage: asDataUrl(data.startImage, 'image'),
+    format: recipe.format,
+    provider: recipe.provider || 'unknown',
+    models: recipe.models || { text: 'unknown', image: 'unknown', video: 'unknown' },
+    promptTemplates: recipe.promptTemplates,
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+    completedAt: video ? Date.now() : undefined
+  };
+};
+
+// URL-safe base64 of UTF-8 JSON with short keys, so links stay short and survive chat apps
+const toBase64Url = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const encodeRecipeHash = (recipe: Recipe): string => {
+  const compact: Record<string, unknown> = {
+    t: recipe.text,
+    s: recipe.style || undefined,
+    y: recipe.typographyPrompt || undefined,
+    a: recipe.format.aspectRatio,
+    r: recipe.format.resolution,
+    m: recipe.animationMode,
+    x: recipe.targetText || undefined,
+    sd: recipe.sound?.silent || recipe.sound?.prompt ? recipe.sound : undefined,
+    p: recipe.provider,
+    md: recipe.models,
+    // Template ids to hashes only; bodies would make the link kilobytes long and live in project files instead
+    v: recipe.promptTemplates
+      ? Object.fromEntries(Object.entries(recipe.promptTemplates).map(([id, snapshot]) => [id, snapshot!.hash]))
+      : undefined
+  };
+  return `${RECIPE_HASH_PREFIX}${toBase64Url(JSON.stringify(compact))}`;
+};
+
+export const decodeRecipeHash = (hash: string): Recipe | null => {
+  if (!hash.startsWith(RECIPE_HASH_PREFIX)) return null;
+  try {
+    const c = JSON.parse(fromBase64Url(hash.slice(RECIPE_HASH_PREFIX.length)));
+    return sanitizeRecipe({
+      text: c.t,
+      style: c.s,
+      typographyPrompt: c.y,
+      format: { aspectRatio: c.a, resolution: c.r },
+      animationMode: c.m,
+      targetText: c.x,
+      sound: c.sd,
+      provider: c.p,
+      models: c.md,
+      promptTemplates: c.v && typeof c.v === 'object'
+        ? Object.fromEntries(Object.entries(c.v).map(([id, hash]) => [id, { hash }]))
+        : undefined
+    });
+  } catch (e) {
+    console.warn("Could not decode recipe link", e);
+    return null;
+  }
+};
+
+export const recipeLink = (recipe: Recipe) =>
+  `${window.location.origin}${window.location.pathname}${encodeRecipeHash(recipe)}`;
+
+// Templates whose body differs from the one active here, compared by content since version numbers are local
+export const templateMismatches = (recipe: Recipe): TemplateId[] =>
+  (Object.entries(recipe.promptTemplates || {}) as [TemplateId, TemplateSnapshot][])
+    .filter(([id, snapshot]) => snapshot.hash !== templateHash(getTemplate(id).body))
+    .map(([id]) => id);
+
+// Differences that mean the recipe may not reproduce exactly here
+export const recipeMismatches = (recipe: Recipe, current: { provider: string; models: CreationRecord['models'] }): string[] => {
+  const notes: string[] = [];
+  if (recipe.models && (recipe.models.image !== current.models.image || recipe.models.video !== current.models.video)) {
+    notes.push(`made with ${recipe.models.image} / ${recipe.models.video}, you're using ${current.models.image} / ${current.models.video}`);
+  } else if (recipe.provider && recipe.provider !== current.provider) {
+    notes.push(`made with the ${recipe.provider} provider`);
+  }
+  for (const id of templateMismatches(recipe)) {
+    notes.push(`its "${getTemplate(id).name}" prompt template differs from yours`);
+  }
+  return notes;
+};
@@ -0,0 +1,310 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TemplateSnapshot } from "../types";
+import { hashString } from "../utils";
+
+// Every prompt sent to a model is rendered from one of these templates. Edits are saved as numbered
+// versions in localStorage; version 0 is always the built-in default, so resetting never loses history.
+
+export type TemplateId =
+  | 'style-suggestion'
+  | 'image'
+  | 'image-with-reference'
+  | 'video-reveal'
+  | 'video-exit'
+  | 'video-transition'
+  | 'video-loop'
+  | 'video-custom-start';
+
+export type TemplateKind = 'style' | 'image' | 'video';
+
+export type TemplateVariables = Record<string, string>;
+
+export interface TemplateDefinition {
+  id: TemplateId;
+  kind: TemplateKind;
+  name: string;
+  description: string;
+  body: string;
+}
+
+export interface TemplateVersion {
+  version: number;
+  body: string;
+  savedAt: number;
+}
+
+interface StoredTemplate {
+  active: number;
+  versions: TemplateVersion[];
+}
+
+export interface ResolvedTemplate extends TemplateDefinition {
+  version: number;
+  isDefault: boolean;
+}
+
+export const TEMPLATE_VARIABLES: Record<TemplateKind, { name: string; description: string }[]> = {
+  style: [
+    { name: 'text', description: 'The words to animate, escaped for use inside quotes' },
+    { name: 'textNotes', description: 'Rules for rendering the text literally (lines, script, accents)' }
+  ],
+  image: [
+    { name: 'text', description: 'The words to animate, escaped for use inside quotes' },
+    { name: 'textNotes', description: 'Rules for rendering the text literally (lines, script, accents)' },
+    { name: 'style', description: 'Art direction' },
+    { name: 'typography', description: 'Typography instruction, or a default when empty' },
+    { name: 'placement', description: 'Where the text goes (center, or the layout guide)' },
+    { name: 'format', description: 'Composition hint for the aspect ratio' },
+    { name: 'guide', description: 'Layout guide instructions, empty without a guide' },
+    { name: 'brand', description: 'Brand kit constraints, empty without a kit' }
+  ],
+  video: [
+    { name: 'text', description: 'The words to animate, escaped for use inside quotes' },
+    { name: 'textNotes', description: 'Rules for rendering the text literally (lines, script, accents)' },
+    { name: 'style', description: 'Art direction' },
+    { name: 'mode', description: 'Animation mode id, e.g. reveal' },
+    { name: 'targetText', description: 'Transition: the words the clip ends on, escaped for use inside quotes' },
+    { name: 'audio', description: 'Sound-design direction or a request for silence, empty by default' },
+    { name: 'brand', description: 'Brand kit constraints, empty without a kit' }
+  ]
+};
+
+const VIDEO_SUFFIX = '{textNotes} {style}. High quality, 8k, smooth motion. {audio} {brand}';
+
+export const DEFAULT_TEMPLATES: TemplateDefinition[] = [
+  {
+    id: 'style-suggestion',
+    kind: 'style',
+    name: 'Style suggestion',
+    description: 'Asks the text model for an art direction when you press Suggest.',
+    body: `Generate a single, creative, short (10-15 words) visual art direction description for a cinematic text animation of the word/phrase: "{text}".
+{textNotes}
+Focus on material, lighting, and environment.
+Examples: "Formed by fluffy white clouds in a deep blue sky", "Glowing neon signs reflected in a rainy street", "Carved from ancient stone in a mossy forest".
+Output ONLY the description.`
+  },
+  {
+    id: 'image',
+    kind: 'image',
+    name: 'Keyframe',
+    description: 'Keyframe image without a reference image.',
+    body: `A hyper-realistic, cinematic, high-resolution image featuring the text "{text}" {placement}.
+{textNotes}
+Typography Instruction: {typography}.
+Visual Style: {style}.
+{brand}
+{guide}
+The typography must be legible and artistic. Lighting should be dramatic and atmospheric. 8k resolution, detailed texture.
+{format}`
+  },
+  {
+    id: 'image-with-reference',
+    kind: 'image',
+    name: 'Keyframe with reference',
+    description: 'Keyframe image when a reference image is attached.',
+    body: `Analyze the visual style, color palette, lighting, and textures of the first attached image.
+Create a NEW high-resolution cinematic image featuring the text "{text}" {placement}.
+{textNotes}
+Typography Instruction: {typography}.
+{guide}
+The text should look like it perfectly belongs in the world of the reference image.
+Additional style instructions: {style}.
+{brand}
+{format}`
+  },
+  {
+    id: 'video-reveal',
+    kind: 'video',
+    name: 'Video: reveal',
+    description: 'Text forms from darkness.',
+    body: `Cinematic transition. The text "{text}" gradually forms and materializes from darkness. ${VIDEO_SUFFIX}`
+  },
+  {
+    id: 'video-exit',
+    kind: 'video',
+    name: 'Video: exit',
+    description: 'Text dissolves away.',
+    body: `Cinematic transition. The text "{text}" starts fully formed, then gradually dissolves and disperses into darkness. ${VIDEO_SUFFIX}`
+  },
+  {
+    id: 'video-transition',
+    kind: 'video',
+    name: 'Video: transition',
+    description: 'One phrase morphs into another.',
+    body: `Cinematic transition. The text "{text}" smoothly morphs and transforms into the text "{targetText}", keeping the same environment and lighting. ${VIDEO_SUFFIX}`
+  },
+  {
+    id: 'video-loop',
+    kind: 'video',
+    name: 'Video: loop',
+    description: 'Seamless loop around legible text.',
+    body: `Seamless looping animation. The text "{text}" stays fully legible while the environment around it moves subtly, ending exactly where it began. ${VIDEO_SUFFIX}`
+  },
+  {
+    id: 'video-custom-start',
+    kind: 'video',
+    name: 'Video: custom start',
+    description: 'An uploaded scene transforms into the text.',
+    body: `Cinematic transition. The opening scene transforms naturally until the text "{text}" forms and materializes. ${VIDEO_SUFFIX}`
+  }
+];
+
+const TEMPLATES_KEY = 'typemotion.promptTemplates';
+const TEMPLATE_FILE_FORMAT = 'typemotion.promptTemplates';
+const TEMPLATE_FILE_VERSION = 1;
+
+export const isTemplateId = (id: string): id is TemplateId => DEFAULT_TEMPLATES.some(t => t.id === id);
+
+const getDefinition = (id: TemplateId) => DEFAULT_TEMPLATES.find(t => t.id === id)!;
+
+const readStore = (): Partial<Record<TemplateId, StoredTemplate>> => {
+  // The CLI has no storage and always renders the built-in templates
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (e) {
+    console.warn("Could not read prompt templates", e);
+    return {};
+  }
+};
+
+const writeStore = (store: Partial<Record<TemplateId, StoredTemplate>>) => {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn("Could not persist prompt templates", e);
+  }
+};
+
+export const listTemplateVersions = (id: TemplateId): TemplateVersion[] =>
+  [{ version: 0, body: getDefinition(id).body, savedAt: 0 }, ...(readStore()[id]?.versions || [])];
+
+export const getTemplate = (id: TemplateId): ResolvedTemplate => {
+  const stored = readStore()[id];
+  const active = stored?.versions.find(v => v.version === stored.active);
+  return { ...getDefinition(id), body: active?.body ?? getDefinition(id).body, version: active?.version ?? 0, isDefault: !active };
+};
+
+export const listTemplates = (): ResolvedTemplate[] => DEFAULT_TEMPLATES.map(t => getTemplate(t.id));
+
+// Saves the body as the next version and makes it active; saving an unchanged body is a no-op
+export const saveTemplate = (id: TemplateId, body: string): ResolvedTemplate => {
+  const current = getTemplate(id);
+  if (current.body === body) return current;
+  const store = readStore();
+  const versions = store[id]?.versions || [];
+  const version = versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+  store[id] = { active: version, versions: [...versions, { version, body, savedAt: Date.now() }] };
+  writeStore(store);
+  return getTemplate(id);
+};
+
+// Switches back to an earlier version (0 is the built-in default) without discarding later ones
+export const activateTemplateVersion = (id: TemplateId, version: number): ResolvedTemplate => {
+  const store = readStore();
+  const stored = store[id];
+  if (stored && (version === 0 || stored.versions.some(v => v.version === version))) {
+    store[id] = { ...stored, active: version };
+    writeStore(store);
+  }
+  return getTemplate(id);
+};
+
+export const resetTemplate = (id: TemplateId) => activateTemplateVersion(id, 0);
+
+export const templateHash = (body: string) => hashString(body).toString(16).padStart(8, '0');
+
+// Recorded with each generation so the exact prompt can be rebuilt anywhere
+export const getTemplateSnapshots = (ids: TemplateId[] = DEFAULT_TEMPLATES.map(t => t.id)): Partial<Record<TemplateId, TemplateSnapshot>> =>
+  Object.fromEntries(ids.map(id => {
+    const { body, version } = getTemplate(id);
+    return [id, { hash: templateHash(body), body, version }];
+  }));
+
+// Keeps well-formed snapshots of known templates; a body always wins over a stated hash. Older records
+// only stored version numbers, which mean nothing outside the machine that made them, so those are dropped.
+export const sanitizeTemplateSnapshots = (raw: unknown): Partial<Record<TemplateId, TemplateSnapshot>> | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const snapshots = Object.entries(raw as Record<string, unknown>).flatMap(([id, value]): [TemplateId, TemplateSnapshot][] => {
+    if (!isTemplateId(id) || !value || typeof value !== 'object') return [];
+    const { hash, body, version } = value as Record<string, unknown>;
+    const snapshotVersion = typeof version === 'number' ? version : undefined;
+    if (typeof body === 'string') return [[id, { hash: templateHash(body), body, version: snapshotVersion }]];
+    if (typeof hash === 'string' && /^[0-9a-f]{8}$/.test(hash)) return [[id, { hash, version: snapshotVersion }]];
+    return [];
+  });
+  return snapshots.length ? Object.fromEntries(snapshots) : undefined;
+};
+
+// Makes a recipe's template active here: the built-in default or an identical saved version is switched to,
+// anything else is saved as a new version. Snapshots without a body are skipped. Returns how many changed.
+export const adoptTemplateSnapshots = (snapshots: Partial<Record<TemplateId, TemplateSnapshot>>): number => {
+  let changed = 0;
+  for (const [id, { body }] of Object.entries(snapshots) as [TemplateId, TemplateSnapshot][]) {
+    if (body === undefined || getTemplate(id).body === body) continue;
+    const existing = listTemplateVersions(id).find(v => v.body === body);
+    if (existing) activateTemplateVersion(id, existing.version);
+    else saveTemplate(id, body);
+    changed++;
+  }
+  return changed;
+};
+
+// Unknown variables are left in place so a typo shows up in the preview instead of silently vanishing
+export const renderTemplate = (body: string, variables: TemplateVariables): string =>
+  body
+    .replace(/\{(\w+)\}/g, (match, name) => name in variables ? variables[name] : match)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+
+export const renderPrompt = (id: TemplateId, variables: TemplateVariables) => renderTemplate(getTemplate(id).body, variables);
+
+export const serializeTemplates = (): Blob =>
+  new Blob([JSON.stringify({ format: TEMPLATE_FILE_FORMAT, version: TEMPLATE_FILE_VERSION, templates: readStore() }, null, 2)], { type: 'application/json' });
+
+// Imported versions are appended after the local ones (renumbered), and the file's active version becomes active here.
+// Returns how many templates changed.
+export const importTemplates = (json: string): number => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error("That file isn't valid JSON.");
+  }
+  if (data?.format !== TEMPLATE_FILE_FORMAT || !data.templates || typeof data.templates !== 'object') {
+    throw new Error("That file doesn't contain prompt templates.");
+  }
+
+  const store = readStore();
+  let changed = 0;
+  for (const [id, raw] of Object.entries<any>(data.templates)) {
+    if (!isTemplateId(id) || !Array.isArray(raw?.versions)) continue;
+    const incoming: TemplateVersion[] = raw.versions.filter((v: any) => typeof v?.body === 'string' && typeof v?.version === 'number');
+    const activeBody = raw.active === 0 ? getDefinition(id).body : incoming.find(v => v.version === raw.active)?.body;
+    if (!incoming.length && activeBody === undefined) continue;
+
+    const versions = [...(store[id]?.versions || [])];
+    let next = versions.reduce((max, v) => Math.max(max, v.version), 0);
+    let active = store[id]?.active ?? 0;
+    for (const v of incoming) {
+      const existing = versions.find(local => local.body === v.body);
+      const version = existing ? existing.version : ++next;
+      if (!existing) versions.push({ version, body: v.body, savedAt: typeof v.savedAt === 'number' ? v.savedAt : Date.now() });
+      if (v.version === raw.active) active = version;
+    }
+    if (raw.active === 0) active = 0;
+    store[id] = { active, versions };
+    changed++;
+  }
+  if (!changed) throw new Error("No usable templates found in that file.");
+  writeStore(store);
+  return changed;
+};
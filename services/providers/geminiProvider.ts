@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, GenerateVideosOperation } from "@google/genai";
+import { GenerationProvider, VideoOperation } from "./types";
+import { GenerationError } from "../errors";
+
+// Helper to ensure we always get a fresh instance with the latest key
+const getAI = () => {
+  if (!process.env.API_KEY) {
+    throw new GenerationError('auth', "No API key is configured.");
+  }
+  // GEMINI_BASE_URL points the SDK at another endpoint, e.g. the fake upstream used to test the proxy
+  const baseUrl = process.env.GEMINI_BASE_URL;
+  return new GoogleGenAI({ apiKey: process.env.API_KEY, httpOptions: baseUrl ? { baseUrl } : undefined });
+};
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_PROHIBITED_CONTENT'];
+
+// Surfaces prompt- and output-level blocks with the category Gemini reports
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    const rating = response.promptFeedback?.safetyRatings?.find(r => r.blocked);
+    throw new GenerationError('safety', response.promptFeedback?.blockReasonMessage || "The prompt was blocked.", { category: rating?.category || blockReason });
+  }
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+    const rating = candidate.safetyRatings?.find(r => r.blocked);
+    throw new GenerationError('safety', candidate.finishMessage || "The output was blocked.", { category: rating?.category || candidate.finishReason });
+  }
+};
+
+const toVideoOperation = (op: GenerateVideosOperation): VideoOperation => ({
+  name: op.name || '',
+  done: !!op.done,
+  videoUri: op.response?.generatedVideos?.[0]?.video?.uri,
+  error: op.error ? String((op.error as any).message || 'Video generation failed.') : undefined,
+  blockedReason: op.response?.raiMediaFilteredReasons?.[0]
+});
+
+// The key goes in a header rather than the query string so it stays out of URL logs and error reports
+const downloadVideo = async (uri: string) => {
+  const videoResponse = await fetch(uri, { headers: { 'x-goog-api-key': process.env.API_KEY || '' } });
+  if (!videoResponse.ok) {
+    throw new Error(`Failed to fetch video content (${videoResponse.status}): ${videoResponse.statusText}`);
+  }
+  return videoResponse.blob();
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Gemini + Veo',
+  requiresApiKey: true,
+  pollIntervalMs: 5000,
+  models: {
+    text: 'gemini-3-flash-preview',
+    image: 'gemini-3-pro-image-preview',
+    video: 'veo-3.1-fast-generate-preview'
+  },
+
+  suggestStyle: async (prompt) => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: geminiProvider.models.text,
+      contents: prompt
+    });
+    assertNotBlocked(response);
+    return response.text?.trim() || "";
+  },
+
+  generateImage: async ({ prompt, referenceImage, guideImage, aspectRatio, imageSize }) => {
+    const ai = getAI();
+    const parts: any[] = [];
+    if (referenceImage) {
+      parts.push({ inlineData: { data: referenceImage.data, mimeType: referenceImage.mimeType } });
+    }
+    // The prompt refers to the guide as the last image, so it always goes after the reference
+    if (guideImage) {
+      parts.push({ inlineData: { data: guideImage.data, mimeType: guideImage.mimeType } });
+    }
+    parts.push({ text: prompt });
+
+    const response = await ai.models.generateContent({
+      model: geminiProvider.models.image,
+      contents: { parts },
+      config: {
+        imageConfig: {
+          aspectRatio,
+          imageSize
+        }
+      }
+    });
+
+    assertNotBlocked(response);
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return {
+          data: part.inlineData.data,
+          mimeType: part.inlineData.mimeType || 'image/png'
+        };
+      }
+    }
+    throw new GenerationError('empty-output', "No image generated");
+  },
+
+  startVideo: async ({ prompt, firstFrame, lastFrame, aspectRatio, resolution }) => {
+    const ai = getAI();
+    const operation = await ai.models.generateVideos({
+      model: geminiProvider.models.video,
+      prompt,
+      image: {
+        imageBytes: firstFrame.data,
+        mimeType: firstFrame.mimeType
+      },
+      config: {
+        numberOfVideos: 1,
+        resolution,
+        aspectRatio,
+        lastFrame: lastFrame ? {
+          imageBytes: lastFrame.data,
+          mimeType: lastFrame.mimeType
+        } : undefined
+      }
+    });
+    return toVideoOperation(operation);
+  },
+
+  pollVideo: async (operation) => {
+    const ai = getAI();
+    // Rebuild the SDK operation from its name so polling also works for operations we only know by name
+    const sdkOperation = new GenerateVideosOperation();
+    sdkOperation.name = operation.name;
+    const op = await ai.operations.getVideosOperation({ operation: sdkOperation });
+    return toVideoOperation(op);
+  },
+
+  readImageText: async (prompt, image) => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: geminiProvider.models.text,
+      contents: {
+        parts: [
+          { inlineData: { data: image.data, mimeType: image.mimeType } },
+          { text: prompt }
+        ]
+      }
+    });
+    return response.text?.trim() || "";
+  },
+
+  fetchVideo: downloadVideo
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getFrameSize, hashString } from "../../utils";
+import { BUILTIN_PRESETS } from "../presets";
+import { assembleApng, encodePng } from "../png";
+import { bytesToBase64 } from "../generationCore";
+import { GenerationProvider, InlineImage, VideoRequest } from "./types";
+
+// Stand-in for the local provider where there is no canvas (the CLI). Keyframes are gradients derived
+// from a hash of the inputs and clips are animated PNGs crossfading between them; no text is drawn.
+
+const CLIP_DURATION_MS = 3000;
+const CLIP_FPS = 12;
+const CLIP_SCALE = 4; // Clips are a quarter of the frame size to keep them quick to encode
+
+type Rgb = [number, number, number];
+
+interface Palette {
+  from: Rgb;
+  to: Rgb;
+}
+
+interface HeadlessJob {
+  blob?: Blob;
+  error?: string;
+}
+
+const BLACK: Palette = { from: [0, 0, 0], to: [0, 0, 0] };
+
+const jobs = new Map<string, HeadlessJob>();
+// What each generated image looks like and says, keyed by a hash of its bytes, so clips and
+// legibility checks can work without decoding anything
+const renderedImages = new Map<number, { palette: Palette; text: string }>();
+let jobCounter = 0;
+
+const hslToRgb = (h: number, s: number, l: number): Rgb => {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+const mix = (a: Rgb, b: Rgb, t: number): Rgb => [0, 1, 2].map(i => Math.round(a[i] + (b[i] - a[i]) * t)) as Rgb;
+
+// Diagonal gradient, the same colours the browser's local provider uses
+const renderGradient = (width: number, height: number, { from, to }: Palette): Promise<Uint8Array> => {
+  const rgba = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = mix(from, to, (x / width + y / height) / 2);
+      rgba.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return encodePng(width, height, rgba);
+};
+
+const paletteOf = (image?: InlineImage): Palette =>
+  image ? renderedImages.get(hashString(image.data))?.palette || BLACK : BLACK;
+
+const renderClip = async ({ firstFrame, lastFrame, aspectRatio }: VideoRequest): Promise<Blob> => {
+  const size = getFrameSize(aspectRatio);
+  const width = Math.round(size.width / CLIP_SCALE);
+  const height = Math.round(size.height / CLIP_SCALE);
+  const first = paletteOf(firstFrame);
+  const last = lastFrame ? paletteOf(lastFrame) : first;
+
+  const totalFrames = Math.round((CLIP_DURATION_MS / 1000) * CLIP_FPS);
+  const frames: { png: Uint8Array; delayMs: number }[] = [];
+  for (let i = 0; i < totalFrames; i++) {
+    const t = i / (totalFrames - 1);
+    const eased = t * t * (3 - 2 * t);
+    const png = await renderGradient(width, height, { from: mix(first.from, last.from, eased), to: mix(first.to, last.to, eased) });
+    frames.push({ png, delayMs: 1000 / CLIP_FPS });
+  }
+  return assembleApng(frames, width, height);
+};
+
+export const headlessProvider: GenerationProvider = {
+  id: 'local',
+  label: 'Local (headless)',
+  requiresApiKey: false,
+  pollIntervalMs: 100,
+  models: {
+    text: 'local-style',
+    image: 'local-gradient-image',
+    video: 'local-apng-video'
+  },
+
+  suggestStyle: async (_prompt, text) => {
+    const styles = BUILTIN_PRESETS.filter(p => p.kind === 'style');
+    return styles[hashString(text) % styles.length].prompt;
+  },
+
+  generateImage: async ({ text, style, aspectRatio }) => {
+    const { width, height } = getFrameSize(aspectRatio);
+    const hue = hashString(`${text}|${style}`) % 360;
+    const palette: Palette = { from: hslToRgb(hue, 0.55, 0.18), to: hslToRgb((hue + 60) % 360, 0.65, 0.08) };
+    const data = bytesToBase64(await renderGradient(width, height, palette));
+    renderedImages.set(hashString(data), { palette, text });
+    return { data, mimeType: 'image/png' };
+  },
+
+  startVideo: async (request) => {
+    const name = `local/operations/${++jobCounter}-${hashString(request.prompt).toString(16)}`;
+    const job: HeadlessJob = {};
+    jobs.set(name, job);
+    renderClip(request)
+      .then(blob => { job.blob = blob; })
+      .catch(e => { job.error = e?.message || "Local clip rendering failed."; });
+    return { name, done: false };
+  },
+
+  pollVideo: async (operation) => {
+    const job = jobs.get(operation.name);
+    if (!job) {
+      return { name: operation.name, done: true, error: "Unknown local operation." };
+    }
+    if (job.error) {
+      return { name: operation.name, done: true, error: job.error };
+    }
+    return {
+      name: operation.name,
+      done: !!job.blob,
+      videoUri: job.blob ? `local://${operation.name}` : undefined
+    };
+  },
+
+  readImageText: async (_prompt, image) => {
+    return renderedImages.get(hashString(image.data))?.text || "";
+  },
+
+  fetchVideo: async (uri) => {
+    const job = jobs.get(uri.replace(/^local:\/\//, ''));
+    if (!job?.blob) throw new Error("Failed to fetch video content: local clip not found");
+    return job.blob;
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geminiProvider } from "./geminiProvider";
+import { localProvider } from "./localProvider";
+import { getProxyUrl, proxyProvider } from "./proxyProvider";
+import { GenerationProvider, ProviderId } from "./types";
+
+export * from "./types";
+
+const PROVIDER_STORAGE_KEY = 'typemotion.provider';
+
+// With a proxy configured the build carries no key and Gemini calls go through the proxy
+const providers: Record<ProviderId, GenerationProvider> = {
+  gemini: getProxyUrl() ? proxyProvider : geminiProvider,
+  local: localProvider
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in providers;
+
+export const listProviders = (): GenerationProvider[] => Object.values(providers);
+
+// Resolution order: explicit user choice, then TYPEMOTION_PROVIDER at build time, then Gemini
+export const getProviderId = (): ProviderId => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (isProviderId(stored)) return stored;
+  } catch (e) {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+  }
+  const configured = process.env.TYPEMOTION_PROVIDER;
+  return isProviderId(configured) ? configured : 'gemini';
+};
+
+export const setProviderId = (id: ProviderId) => {
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch (e) {
+    console.warn("Could not persist provider choice", e);
+  }
+};
+
+export const getProvider = (): GenerationProvider => providers[getProviderId()];
+
+export const getProviderById = (id: ProviderId): GenerationProvider | undefined =>
+  isProviderId(id) ? providers[id] : undefined;
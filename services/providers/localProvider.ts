@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { cleanBase64, getFrameSize, hashString, pickRecorderMimeType } from "../../utils";
+import { BUILTIN_PRESETS } from "../presets";
+import { detectScripts, textLines } from "../textInput";
+import { AspectRatio } from "../../types";
+import { GenerationProvider, InlineImage, VideoRequest } from "./types";
+
+// Offline stand-in for the Gemini/Veo stack. Everything is drawn on canvas and
+// derived from a hash of the inputs, so the same request always looks the same.
+
+const CLIP_DURATION_MS = 3000;
+const CLIP_FPS = 24;
+
+interface LocalJob {
+  blob?: Blob;
+  error?: string;
+}
+
+const jobs = new Map<string, LocalJob>();
+// The local provider can't do OCR, but it knows what it drew: keyed by a hash of the image bytes
+const renderedText = new Map<number, string>();
+let jobCounter = 0;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+};
+
+const toDataUrl = ({ data, mimeType }: InlineImage) => `data:${mimeType};base64,${data}`;
+
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, scale = 1) => {
+  const { width, height } = ctx.canvas;
+  const ratio = Math.max(width / img.width, height / img.height) * scale;
+  const w = img.width * ratio;
+  const h = img.height * ratio;
+  ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+const renderKeyframe = async (text: string, style: string, aspectRatio: AspectRatio, referenceImage?: InlineImage, guideImage?: InlineImage): Promise<string> => {
+  // Always 720p: placeholder frames don't benefit from more pixels
+  const { width, height } = getFrameSize(aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const seed = hashString(`${text}|${style}`);
+  const hue = seed % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 55%, 18%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 65%, 8%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  if (referenceImage) {
+    try {
+      ctx.globalAlpha = 0.45;
+      drawCover(ctx, await loadImage(toDataUrl(referenceImage)));
+      ctx.globalAlpha = 1;
+    } catch (e) {
+      ctx.globalAlpha = 1;
+    }
+  }
+
+  ctx.shadowColor = `hsl(${hue}, 90%, 60%)`;
+  ctx.shadowBlur = 40;
+  if (guideImage) {
+    // Inverted and screened, the black-on-white guide becomes glowing white letters in the exact layout
+    ctx.filter = 'invert(1)';
+    ctx.globalCompositeOperation = 'screen';
+    ctx.drawImage(await loadImage(toDataUrl(guideImage)), 0, 0, width, height);
+    ctx.filter = 'none';
+    ctx.globalCompositeOperation = 'source-over';
+  } else {
+    const lines = textLines(text);
+    const widest = () => Math.max(...lines.map(line => ctx.measureText(line).width));
+    let fontSize = Math.min(220, height * 0.8 / lines.length);
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    while (fontSize > 24 && widest() > width * 0.85) {
+      fontSize -= 8;
+      ctx.font = `bold ${fontSize}px sans-serif`;
+    }
+    ctx.direction = detectScripts(text).rtl ? 'rtl' : 'ltr';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#ffffff';
+    const lineHeight = fontSize * 1.1;
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, height / 2 + (i - (lines.length - 1) / 2) * lineHeight));
+    ctx.direction = 'ltr';
+  }
+
+  ctx.shadowBlur = 0;
+  ctx.font = '16px monospace';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.fillText('LOCAL PREVIEW', width / 2, height - 32);
+
+  return cleanBase64(canvas.toDataURL('image/png'));
+};
+
+// Crossfades the first frame into the last frame with a slow push-in, recorded in real time
+const renderClip = async ({ firstFrame, lastFrame, aspectRatio }: VideoRequest): Promise<Blob> => {
+  const { width, height } = getFrameSize(aspectRatio);
+  const first = await loadImage(toDataUrl(firstFrame));
+  const last = lastFrame ? await loadImage(toDataUrl(lastFrame)) : first;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const mimeType = pickRecorderMimeType();
+  const recorder = new MediaRecorder(canvas.captureStream(CLIP_FPS), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const drawFrame = (t: number) => {
+    const eased = t * t * (3 - 2 * t);
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    drawCover(ctx, first);
+    ctx.globalAlpha = eased;
+    drawCover(ctx, last, 1.08 - 0.08 * eased);
+  };
+
+  drawFrame(0);
+  recorder.start();
+  const totalFrames = Math.round((CLIP_DURATION_MS / 1000) * CLIP_FPS);
+  for (let i = 1; i <= totalFrames; i++) {
+    await new Promise(r => setTimeout(r, 1000 / CLIP_FPS));
+    drawFrame(i / totalFrames);
+  }
+  recorder.stop();
+  await stopped;
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] || 'video/webm' });
+};
+
+export const localProvider: GenerationProvider = {
+  id: 'local',
+  label: 'Local (offline)',
+  requiresApiKey: false,
+  pollIntervalMs: 500,
+  models: {
+    text: 'local-style',
+    image: 'local-canvas-image',
+    video: 'local-canvas-video'
+  },
+
+  suggestStyle: async (_prompt, text) => {
+    const styles = BUILTIN_PRESETS.filter(p => p.kind === 'style');
+    return styles[hashString(text) % styles.length].prompt;
+  },
+
+  generateImage: async ({ text, style, aspectRatio, referenceImage, guideImage }) => {
+    const data = await renderKeyframe(text, style, aspectRatio, referenceImage, guideImage);
+    renderedText.set(hashString(data), text);
+    return { data, mimeType: 'image/png' };
+  },
+
+  startVideo: async (request) => {
+    const name = `local/operations/${++jobCounter}-${hashString(request.prompt).toString(16)}`;
+    const job: LocalJob = {};
+    jobs.set(name, job);
+    renderClip(request)
+      .then(blob => { job.blob = blob; })
+      .catch(e => { job.error = e?.message || "Local clip rendering failed."; });
+    return { name, done: false };
+  },
+
+  pollVideo: async (operation) => {
+    const job = jobs.get(operation.name);
+    if (!job) {
+      return { name: operation.name, done: true, error: "Unknown local operation." };
+    }
+    if (job.error) {
+      return { name: operation.name, done: true, error: job.error };
+    }
+    return {
+      name: operation.name,
+      done: !!job.blob,
+      videoUri: job.blob ? `local://${operation.name}` : undefined
+    };
+  },
+
+  readImageText: async (_prompt, image) => {
+    return renderedText.get(hashString(image.data)) || "";
+  },
+
+  fetchVideo: async (uri) => {
+    const job = jobs.get(uri.replace(/^local:\/\//, ''));
+    if (!job?.blob) throw new Error("Failed to fetch video content: local clip not found");
+    return job.blob;
+  }
+};
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationProvider, InlineImage, VideoOperation } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { GenerationError } from "../errors";
+import { PROXY_ROUTES, PROXY_TOKEN_STORAGE_KEY, ProxyErrorBody } from "../proxyApi";
+
+// Gemini through the typemotion proxy (server/proxy.ts), which holds the API key. Used in place of the
+// direct provider when the app is built with TYPEMOTION_PROXY_URL.
+
+export const getProxyUrl = (): string | undefined => process.env.TYPEMOTION_PROXY_URL?.replace(/\/+$/, '') || undefined;
+
+const authHeaders = (): Record<string, string> => {
+  try {
+    const token = localStorage.getItem(PROXY_TOKEN_STORAGE_KEY);
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+// The server reports errors already classified, so they keep their kind, category and retry policy
+const toGenerationError = async (response: Response): Promise<GenerationError> => {
+  let body: Partial<ProxyErrorBody> = {};
+  try {
+    body = await response.json();
+  } catch (e) {
+    // Not JSON, e.g. an HTML error page from something in front of the proxy
+  }
+  const { kind = 'unknown', message = `Proxy request failed (${response.status}): ${response.statusText}`, category } = body.error || {};
+  return new GenerationError(kind, message, { status: response.status, category });
+};
+
+const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await fetch(`${getProxyUrl()}${path}`, {
+    ...init,
+    headers: { ...authHeaders(), ...(init.body ? { 'Content-Type': 'application/json' } : {}), ...init.headers }
+  });
+  if (!response.ok) throw await toGenerationError(response);
+  return response;
+};
+
+const post = async <T>(path: string, body: unknown): Promise<T> =>
+  (await request(path, { method: 'POST', body: JSON.stringify(body) })).json();
+
+export const proxyProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Gemini + Veo (proxy)',
+  requiresApiKey: false,
+  pollIntervalMs: geminiProvider.pollIntervalMs,
+  // Cache keys and history records name the models the proxy calls
+  models: geminiProvider.models,
+
+  suggestStyle: async (prompt, text) =>
+    (await post<{ text: string }>(PROXY_ROUTES.style, { prompt, text })).text,
+
+  generateImage: (imageRequest) => post<InlineImage>(PROXY_ROUTES.image, imageRequest),
+
+  startVideo: (videoRequest) => post<VideoOperation>(PROXY_ROUTES.video, videoRequest),
+
+  pollVideo: async (operation) =>
+    (await request(`${PROXY_ROUTES.videoOperation}?name=${encodeURIComponent(operation.name)}`)).json(),
+
+  readImageText: async (prompt, image) =>
+    (await post<{ text: string }>(PROXY_ROUTES.readText, { prompt, image })).text,
+
+  fetchVideo: async (uri) =>
+    (await request(`${PROXY_ROUTES.videoDownload}?uri=${encodeURIComponent(uri)}`)).blob()
+};
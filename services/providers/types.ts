@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AspectRatio, VideoResolution } from "../../types";
+
+export type ProviderId = 'gemini' | 'local';
+
+export interface InlineImage {
+  data: string; // Raw base64, no data URL prefix
+  mimeType: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  referenceImage?: InlineImage;
+  guideImage?: InlineImage; // Black-on-white render of the exact text layout to follow
+  aspectRatio: AspectRatio;
+  imageSize: '1K' | '2K';
+  // Provider-agnostic hints so offline providers can render something sensible
+  text: string;
+  style: string;
+}
+
+export interface VideoRequest {
+  prompt: string;
+  firstFrame: InlineImage;
+  lastFrame?: InlineImage;
+  text: string;
+  aspectRatio: '16:9' | '9:16';
+  resolution: VideoResolution;
+}
+
+// Normalised long-running operation so callers never touch SDK-specific objects
+export interface VideoOperation {
+  name: string;
+  done: boolean;
+  videoUri?: string;
+  error?: string;
+  blockedReason?: string; // Set when the output was withheld by a safety filter
+}
+
+export interface GenerationProvider {
+  id: ProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  pollIntervalMs: number;
+  models: {
+    text: string;
+    image: string;
+    video: string;
+  };
+  suggestStyle: (prompt: string, text: string) => Promise<string>;
+  generateImage: (request: ImageRequest) => Promise<InlineImage>;
+  startVideo: (request: VideoRequest) => Promise<VideoOperation>;
+  pollVideo: (operation: VideoOperation) => Promise<VideoOperation>;
+  fetchVideo: (uri: string) => Promise<Blob>;
+  readImageText: (prompt: string, image: InlineImage) => Promise<string>;
+}
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationErrorKind } from "./errors";
+
+// Contract between the browser's proxy provider and the key-holding server (server/proxy.ts).
+// Bodies are JSON shaped like the provider types; the download route streams the video itself.
+
+export const PROXY_ROUTES = {
+  health: '/api/health',
+  style: '/api/style',
+  image: '/api/image',
+  readText: '/api/read-text',
+  video: '/api/video',
+  videoOperation: '/api/video/operation', // ?name=<operation name>
+  videoDownload: '/api/video/download' // ?uri=<video uri from a finished operation>
+} as const;
+
+// Sent as the Authorization bearer token when the server identifies users by token
+export const PROXY_TOKEN_STORAGE_KEY = 'typemotion.proxyToken';
+
+export interface ProxyErrorBody {
+  error: {
+    kind: GenerationErrorKind;
+    message: string;
+    category?: string;
+    retryAfterSeconds?: number;
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { generateTextImage, generateTextVideo, resolveStyle } from "./geminiService";
+import { OutputFormat } from "../types";
+import { describeError } from "./errors";
+
+export const MIN_STORYBOARD_SHOTS = 2;
+export const MAX_STORYBOARD_SHOTS = 6;
+
+export interface StoryboardShot {
+  id: string;
+  text: string;
+  style: string;
+  typographyPrompt: string;
+}
+
+export type ShotStatus = 'pending' | 'generating-image' | 'generating-video' | 'done' | 'error';
+
+export interface ShotProgress {
+  status: ShotStatus;
+  imageSrc?: string; // Full Data URL
+  videoUrl?: string;
+  style?: string; // Art direction the shot was rendered with, after any fallback
+  error?: string;
+}
+
+interface StoryboardOptions {
+  format: OutputFormat;
+  referenceImage?: string; // Full Data URL
+  // Finished shots from an earlier, interrupted run; they are reused instead of paid for again
+  completed?: { image: { data: string; mimeType: string }; videoUrl: string; style?: string }[];
+  onShotUpdate: (index: number, changes: Partial<ShotProgress>) => void;
+}
+
+export interface StoryboardResult {
+  keyframes: string[];
+  clipUrls: string[];
+  baseStyle: string;
+}
+
+// Shots run strictly in order. The first shot reveals from darkness; every later shot is a
+// transition whose first frame is the previous shot's keyframe, so the cut between clips is seamless.
+export const generateStoryboard = async (shots: StoryboardShot[], { format, referenceImage, completed = [], onShotUpdate }: StoryboardOptions): Promise<StoryboardResult> => {
+  // Shots without their own art direction inherit the first one so the sequence stays coherent. A resumed
+  // run keeps the one the first shot was rendered with, which may have been a random pick.
+  const baseStyle = completed[0]?.style || resolveStyle(shots[0]?.style);
+  const keyframes: { data: string; mimeType: string }[] = [];
+  const clipUrls: string[] = [];
+
+  for (let i = 0; i < shots.length; i++) {
+    const shot = shots[i];
+    const style = shot.style.trim() || baseStyle;
+    if (completed[i]) {
+      keyframes.push(completed[i].image);
+      clipUrls.push(completed[i].videoUrl);
+      continue;
+    }
+    try {
+      onShotUpdate(i, { status: 'generating-image', error: undefined, style });
+      const image = await generateTextImage({
+        text: shot.text,
+        style,
+        typographyPrompt: shot.typographyPrompt,
+        referenceImage,
+        format
+      });
+      keyframes.push(image);
+      onShotUpdate(i, { status: 'generating-video', imageSrc: `data:${image.mimeType};base64,${image.data}` });
+
+      const videoUrl = i === 0
+        ? await generateTextVideo(shot.text, image.data, image.mimeType, style, format, { mode: 'reveal' })
+        : await generateTextVideo(shots[i - 1].text, keyframes[i - 1].data, keyframes[i - 1].mimeType, style, format, {
+            mode: 'transition',
+            targetText: shot.text,
+            targetImage: image
+          });
+      clipUrls.push(videoUrl);
+      onShotUpdate(i, { status: 'done', videoUrl });
+    } catch (e: any) {
+      onShotUpdate(i, { status: 'error', error: describeError(e).message });
+      throw e;
+    }
+  }
+
+  return {
+    keyframes: keyframes.map(k => `data:${k.mimeType};base64,${k.data}`),
+    clipUrls,
+    baseStyle
+  };
+};
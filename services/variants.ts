@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { generateStyleSuggestion, resolveStyle } from "./geminiService";
+import { listPresets } from "./presets";
+
+// Where the looks being compared come from
+export type VariantSource = 'random-styles' | 'typography' | 'suggested-styles';
+
+export interface VariantPlan {
+  label: string;
+  style: string;
+  typographyPrompt: string;
+}
+
+export interface VariantPlanOptions {
+  text: string;
+  source: VariantSource;
+  count: number;
+  style: string; // Form values, kept fixed for whatever isn't being varied
+  typographyPrompt: string;
+  typographyIds?: string[]; // Presets to compare when source is 'typography'
+}
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 6;
+
+export const VARIANT_SOURCES: { id: VariantSource; label: string; description: string }[] = [
+  { id: 'random-styles', label: 'Random styles', description: 'Different art directions from the preset catalog, same typography.' },
+  { id: 'typography', label: 'Typography', description: 'The presets you pick, all in the same art direction.' },
+  { id: 'suggested-styles', label: 'Suggested', description: 'Art directions suggested by the text model for these words.' }
+];
+
+const shuffle = <T,>(values: T[]): T[] => {
+  const copy = [...values];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Only one thing varies per comparison, so differences between the clips come from that choice
+export const planVariants = async ({ text, source, count, style, typographyPrompt, typographyIds = [] }: VariantPlanOptions): Promise<VariantPlan[]> => {
+  const size = Math.max(MIN_VARIANTS, Math.min(MAX_VARIANTS, count));
+  switch (source) {
+    case 'random-styles':
+      return shuffle(listPresets('style')).slice(0, size).map(preset => ({ label: preset.label, style: preset.prompt, typographyPrompt }));
+    case 'typography': {
+      const presets = listPresets('typography').filter(preset => typographyIds.includes(preset.id));
+      if (presets.length < MIN_VARIANTS) throw new Error(`Pick at least ${MIN_VARIANTS} typography presets to compare.`);
+      const sharedStyle = resolveStyle(style);
+      return presets.slice(0, MAX_VARIANTS).map(preset => ({ label: preset.label, style: sharedStyle, typographyPrompt: preset.prompt }));
+    }
+    case 'suggested-styles': {
+      const results = await Promise.allSettled(Array.from({ length: size }, (_, i) => generateStyleSuggestion(text, { sample: i })));
+      const styles = [...new Set(results.flatMap(r => r.status === 'fulfilled' ? [r.value.trim()] : []))];
+      if (!styles.length) {
+        const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        throw failure?.reason || new Error("No style suggestions came back.");
+      }
+      return styles.map((suggestion, i) => ({ label: `Suggestion ${i + 1}`, style: suggestion, typographyPrompt }));
+    }
+  }
+};
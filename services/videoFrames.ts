@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AspectRatio } from "../types";
+import { aspectRatioToNumber } from "../utils";
+import { ClipEdits, editedDuration, sourceTimeAt } from "./clipEdits";
+
+const SEEK_TIMEOUT_MS = 3000;
+const LOGO_WIDTH = 0.12; // Of the frame width
+const LOGO_MARGIN = 0.03; // Of the shorter frame side
+
+export interface FrameReader {
+  video: HTMLVideoElement;
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  duration: number;
+  seek: (time: number) => Promise<boolean>;
+  draw: () => void;
+}
+
+interface FrameReaderOptions {
+  aspectRatio?: AspectRatio;
+  maxWidth?: number;
+  logo?: string; // Data URL stamped in the bottom-right corner of every frame, e.g. a brand kit's logo
+}
+
+export const cancelledError = (what = "Export") => new DOMException(`${what} cancelled.`, "AbortError");
+
+const loadMetadata = (videoUrl: string): Promise<HTMLVideoElement> => new Promise((resolve, reject) => {
+  const video = document.createElement('video');
+  video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.playsInline = true;
+  video.onloadedmetadata = () => resolve(video);
+  video.onerror = () => reject(new Error("Video load failed"));
+  video.src = videoUrl;
+  video.load();
+});
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not load the logo image."));
+  img.src = src;
+});
+
+// Opens a video for frame-accurate reading into a canvas, center-cropped to the requested format
+// (e.g. square from a 16:9 render) and downscaled to at most `maxWidth` with even dimensions.
+export const openFrameReader = async (videoUrl: string, { aspectRatio, maxWidth, logo }: FrameReaderOptions = {}): Promise<FrameReader> => {
+  const video = await loadMetadata(videoUrl);
+  const logoImage = logo ? await loadImage(logo) : null;
+  const sourceRatio = video.videoWidth / video.videoHeight;
+  const targetRatio = aspectRatio ? aspectRatioToNumber(aspectRatio) : sourceRatio;
+
+  let cropWidth = video.videoWidth;
+  let cropHeight = video.videoHeight;
+  if (targetRatio > sourceRatio) cropHeight = video.videoWidth / targetRatio;
+  else if (targetRatio < sourceRatio) cropWidth = video.videoHeight * targetRatio;
+  const cropX = (video.videoWidth - cropWidth) / 2;
+  const cropY = (video.videoHeight - cropHeight) / 2;
+
+  // Never upscale
+  let width = Math.min(maxWidth || Infinity, Math.round(cropWidth));
+  let height = Math.round(width / targetRatio);
+  if (width % 2 !== 0) width -= 1;
+  if (height % 2 !== 0) height -= 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  // Resolves false if the seek doesn't land in time, so the caller can decide what a stuck frame means
+  const seek = (time: number): Promise<boolean> => new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      video.removeEventListener('seeked', onSeeked);
+      resolve(false);
+    }, SEEK_TIMEOUT_MS);
+    const onSeeked = () => {
+      clearTimeout(timeout);
+      resolve(true);
+    };
+    video.addEventListener('seeked', onSeeked, { once: true });
+    video.currentTime = Math.min(time, Math.max(0, (video.duration || 0) - 0.001));
+  });
+
+  const logoWidth = width * LOGO_WIDTH;
+  const logoHeight = logoImage ? logoWidth * logoImage.naturalHeight / Math.max(1, logoImage.naturalWidth) : 0;
+  const logoMargin = Math.min(width, height) * LOGO_MARGIN;
+
+  return {
+    video,
+    canvas,
+    ctx,
+    width,
+    height,
+    duration: video.duration || 5,
+    seek,
+    draw: () => {
+      ctx.drawImage(video, cropX, cropY, cropWidth, cropHeight, 0, 0, width, height);
+      if (logoImage) ctx.drawImage(logoImage, width - logoMargin - logoWidth, height - logoMargin - logoHeight, logoWidth, logoHeight);
+    }
+  };
+};
+
+interface ReadFramesOptions {
+  fps: number;
+  edits?: ClipEdits;
+  signal?: AbortSignal;
+  onProgress?: (value: number) => void;
+}
+
+// Steps through the (edited) clip at `fps`, drawing each new frame into the reader's canvas before calling back.
+// `fresh` is false when the canvas still holds the previous frame: a held frame, or a seek that got stuck.
+export const readFrames = async (
+  reader: FrameReader,
+  { fps, edits, signal, onProgress }: ReadFramesOptions,
+  onFrame: (index: number, fresh: boolean, delayMs: number) => void | Promise<void>
+) => {
+  const delayMs = 1000 / fps;
+  const duration = edits ? editedDuration(edits, reader.duration) : reader.duration;
+  const totalFrames = Math.max(1, Math.floor(duration * fps));
+  let drawnTime = -1;
+  for (let i = 0; i < totalFrames; i++) {
+    if (signal?.aborted) throw cancelledError();
+    const time = edits ? sourceTimeAt(edits, reader.duration, i / fps) : i / fps;
+    const repeated = Math.abs(time - drawnTime) < 0.0005;
+    // The first frame is always drawn, even if its seek stalls, so there is something to repeat
+    const fresh = !repeated && ((await reader.seek(time)) || i === 0);
+    if (fresh) {
+      reader.draw();
+      drawnTime = time;
+    }
+    await onFrame(i, fresh, delayMs);
+    onProgress?.((i + 1) / totalFrames);
+  }
+};
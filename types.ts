@@ -7,12 +7,104 @@ export enum AppState {
   IDLE = 'IDLE',
   CHECKING_KEY = 'CHECKING_KEY',
   GENERATING_IMAGE = 'GENERATING_IMAGE',
+  REVIEWING_KEYFRAMES = 'REVIEWING_KEYFRAMES',
   GENERATING_VIDEO = 'GENERATING_VIDEO',
   PLAYING = 'PLAYING',
   ERROR = 'ERROR'
 }
 
+export type AspectRatio = '16:9' | '9:16' | '1:1';
+export type VideoResolution = '720p' | '1080p';
+
+export interface OutputFormat {
+  aspectRatio: AspectRatio;
+  resolution: VideoResolution;
+}
+
+export type AnimationMode = 'reveal' | 'exit' | 'transition' | 'loop' | 'custom-start';
+
+export interface AnimationOptions {
+  mode: AnimationMode;
+  targetText?: string; // transition: the word the clip ends on
+  targetImage?: KeyframeImage; // transition: keyframe for targetText
+  startImage?: string; // custom-start: Full Data URL of the uploaded first frame
+  sound?: SoundOptions;
+}
+
+// What the video model is asked to do with the soundtrack
+export interface SoundOptions {
+  prompt: string; // Sound-design direction, e.g. "deep whoosh, then a soft chime"
+  silent: boolean;
+}
+
+export interface KeyframeImage {
+  data: string; // Raw base64
+  mimeType: string;
+}
+
+export interface LegibilityResult {
+  expected: string;
+  read: string;
+  score: number; // 0..1 similarity after case and whitespace normalization; 1 is an exact match
+  attempts: number;
+}
+
+export interface KeyframeVersion {
+  image: KeyframeImage;
+  legibility?: LegibilityResult;
+  instruction?: string; // Missing on the original, unrefined image
+}
+
+export interface KeyframeCandidate {
+  versions: KeyframeVersion[];
+  activeVersion: number;
+}
+
 export interface GenerationResult {
   imageUrl?: string;
   videoUrl?: string;
 }
+
+// A prompt template as it was used. Local version numbers differ between machines and the built-in
+// defaults change between builds, so the hash identifies it and project files carry the body too.
+// Recipe links only carry the hash, to stay short.
+export interface TemplateSnapshot {
+  hash: string;
+  body?: string;
+  version?: number; // Local version at the time, 0 being the built-in default; for display only
+}
+
+export interface CreationRecord {
+  id: string;
+  text: string;
+  style: string;
+  typographyPrompt: string;
+  referenceImage?: string; // Full Data URL
+  keyframeImage?: string; // Full Data URL
+  refinements?: string[]; // Edit instructions applied to the keyframe, in order
+  videoBlob?: Blob;
+  animationMode?: AnimationMode;
+  targetText?: string;
+  startImage?: string; // Full Data URL
+  sound?: SoundOptions;
+  format?: OutputFormat; // Missing on records saved before formats existed (16:9, 720p)
+  provider: string;
+  models: {
+    text: string;
+    image: string;
+    video: string;
+  };
+  promptTemplates?: Record<string, TemplateSnapshot>; // Template id -> the template as used
+  rating?: number; // 1-5, given when comparing variants
+  createdAt: number;
+  completedAt?: number;
+}
+
+declare global {
+  interface Window {
+    aistudio?: {
+      hasSelectedApiKey: () => Promise<boolean>;
+      openSelectKey: () => Promise<void>;
+    };
+  }
+}
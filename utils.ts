@@ -3,28 +3,44 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-// @ts-ignore
-import { GIFEncoder, quantize, applyPalette } from 'gifenc';
-
-export const getRandomStyle = (): string => {
-  const styles = [
-    "formed by fluffy white clouds in a deep blue summer sky",
-    "written in glowing constellations against a dark nebula galaxy",
-    "arranged using colorful autumn leaves on wet green grass",
-    "reflected in cyberpunk neon puddles on a rainy street",
-    "drawn with latte art foam in a ceramic coffee cup",
-    "glowing as ancient magical runes carved into a dark cave wall",
-    "displayed on a futuristic translucent holographic interface",
-    "sculpted from melting surrealist gold in a desert landscape",
-    "arranged with intricate mechanical gears and steampunk machinery",
-    "formed by bioluminescent jellyfish in the deep ocean",
-    "composed of vibrant colorful smoke swirling in a dark room",
-    "carved into the bark of an ancient mossy oak tree",
-    "made of sparkling diamonds scattered on black velvet"
-  ];
-  return styles[Math.floor(Math.random() * styles.length)];
+import { AnimationMode, AspectRatio, OutputFormat, VideoResolution } from './types';
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = { aspectRatio: '16:9', resolution: '720p' };
+
+export const ASPECT_RATIO_OPTIONS: { id: AspectRatio; label: string; previewClass: string }[] = [
+  { id: '16:9', label: 'Landscape', previewClass: 'aspect-video' },
+  { id: '9:16', label: 'Vertical', previewClass: 'aspect-[9/16]' },
+  { id: '1:1', label: 'Square', previewClass: 'aspect-square' },
+];
+
+export const getPreviewAspectClass = (aspectRatio: AspectRatio = '16:9') =>
+  ASPECT_RATIO_OPTIONS.find(o => o.id === aspectRatio)?.previewClass || 'aspect-video';
+
+// Veo only renders landscape and vertical. Square output is rendered at 16:9 and center-cropped.
+export const getVideoAspectRatio = (aspectRatio: AspectRatio): '16:9' | '9:16' =>
+  aspectRatio === '9:16' ? '9:16' : '16:9';
+
+export const getFrameSize = (aspectRatio: AspectRatio, resolution: VideoResolution = '720p') => {
+  const short = resolution === '1080p' ? 1080 : 720;
+  const long = Math.round(short * 16 / 9);
+  if (aspectRatio === '9:16') return { width: short, height: long };
+  if (aspectRatio === '1:1') return { width: short, height: short };
+  return { width: long, height: short };
+};
+
+export const aspectRatioToNumber = (aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w / h;
 };
 
+export const ANIMATION_MODES: { id: AnimationMode; label: string; description: string }[] = [
+  { id: 'reveal', label: 'Reveal', description: 'Text materializes out of darkness.' },
+  { id: 'exit', label: 'Dissolve', description: 'Text starts on screen and dissolves away.' },
+  { id: 'transition', label: 'Transition', description: 'One word morphs into another.' },
+  { id: 'loop', label: 'Loop', description: 'Ambient motion that ends where it starts.' },
+  { id: 'custom-start', label: 'Custom Start', description: 'Your own image transforms into the text.' },
+];
+
 export const cleanBase64 = (data: string): string => {
   // Remove data URL prefix if present to get raw base64
   // Handles generic data:application/octet-stream;base64, patterns too
@@ -40,94 +56,255 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-export const createGifFromVideo = async (videoUrl: string): Promise<Blob> => {
-  // Runtime check just in case, though standard imports should throw earlier if failed
-  if (typeof GIFEncoder !== 'function') {
-    throw new Error("GIF library failed to load correctly. Please refresh the page.");
+export const triggerDownload = (url: string, filename: string) => {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
+// Generated clips are MP4 from Veo but WebM when recorded in the browser (APNG from the CLI's stand-in), so names follow the blob
+export const videoFileExtension = (mimeType: string) => mimeType.includes('webm') ? 'webm' : mimeType.includes('png') ? 'apng' : 'mp4';
+
+// Keyframes are PNG from Gemini but may be JPEG or WebP from other providers or the cache
+export const imageFileExtension = (mimeType: string) => mimeType.includes('jpeg') ? 'jpg' : mimeType.includes('webp') ? 'webp' : 'png';
+
+// Accents on Latin letters are folded away; other scripts keep their combining marks (Devanagari vowel signs,
+// Arabic harakat) so localised titles stay readable and don't all become "untitled"
+export const slugify = (value: string, maxLength = 40): string => {
+  const slug = value.normalize('NFKD').replace(/(\p{Script=Latin})\p{M}+/gu, '$1').normalize('NFC')
+    .toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return Array.from(slug).slice(0, maxLength).join('') || 'untitled';
+};
+
+// 32-bit FNV-1a: stable across runs and machines, for identifying content rather than securing it
+export const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+export const parseCsv = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
   }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
 
+export interface ZipEntry {
+  name: string;
+  data: Blob | Uint8Array | string;
+}
+
+// Builds an uncompressed (STORE) zip. Video and image payloads are already compressed, so deflate buys little.
+export const createZipBlob = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string'
+      ? encoder.encode(entry.data)
+      : entry.data instanceof Blob ? new Uint8Array(await entry.data.arrayBuffer()) : entry.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    parts.push(local.buffer, nameBytes, data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, nameBytes.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+export const pickRecorderMimeType = () => {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+const CLIP_LOAD_TIMEOUT_MS = 30_000;
+// Slack on top of a clip's own duration before its playback counts as stalled
+const CLIP_STALL_MARGIN_MS = 15_000;
+
+const loadVideo = (url: string, index: number): Promise<HTMLVideoElement> => {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
+    const timeout = setTimeout(() => {
+      video.removeAttribute('src');
+      reject(new Error(`Clip ${index + 1} took too long to load.`));
+    }, CLIP_LOAD_TIMEOUT_MS);
     video.crossOrigin = "anonymous";
-    video.src = videoUrl;
     video.muted = true;
-    
-    video.onloadedmetadata = async () => {
-      try {
-        const duration = video.duration || 5; 
-        const width = 400; // Downscale for speed
-        // Ensure even dimensions
-        let height = Math.floor((video.videoHeight / video.videoWidth) * width);
-        if (height % 2 !== 0) height -= 1;
-
-        const fps = 10;
-        const totalFrames = Math.floor(duration * fps);
-        
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        
-        if (!ctx) throw new Error("Could not get canvas context");
-
-        // Initialize encoder
-        const gif = GIFEncoder();
-        
-        for (let i = 0; i < totalFrames; i++) {
-          // Yield to main thread to prevent UI freeze
-          await new Promise(r => setTimeout(r, 0));
-
-          const time = i / fps;
-          video.currentTime = time;
-          
-          // Wait for seek with timeout
-          await new Promise<void>((r, rej) => {
-             const timeout = setTimeout(() => {
-                video.removeEventListener('seeked', seekHandler);
-                // Proceed anyway if seek takes too long, though frame might be dupe
-                r();
-             }, 1000);
-
-             const seekHandler = () => {
-               clearTimeout(timeout);
-               video.removeEventListener('seeked', seekHandler);
-               r();
-             };
-             video.addEventListener('seeked', seekHandler);
-          });
-          
-          ctx.drawImage(video, 0, 0, width, height);
-          const imageData = ctx.getImageData(0, 0, width, height);
-          const { data } = imageData;
-          
-          // Quantize
-          const palette = quantize(data, 256);
-          const index = applyPalette(data, palette);
-          
-          gif.writeFrame(index, width, height, { palette, delay: 1000 / fps });
-        }
-        
-        gif.finish();
-        const buffer = gif.bytes();
-        resolve(new Blob([buffer], { type: 'image/gif' }));
-      } catch (e) {
-        console.error("GIF Generation Error:", e);
-        reject(e);
-      }
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      clearTimeout(timeout);
+      resolve(video);
+    };
+    video.onerror = () => {
+      clearTimeout(timeout);
+      reject(new Error(`Clip ${index + 1} failed to load.`));
     };
-    
-    video.onerror = (e) => reject(new Error("Video load failed"));
-    video.load(); 
+    video.src = url;
+    video.load();
   });
 };
 
-export const TYPOGRAPHY_SUGGESTIONS = [
-  { id: 'cinematic-3d', label: 'Cinematic 3D', prompt: 'Bold, dimensional 3D text with realistic lighting and shadows' },
-  { id: 'neon-cyber', label: 'Neon Cyber', prompt: 'Glowing neon tube typography, cyberpunk aesthetic, vibrant bloom' },
-  { id: 'elegant-serif', label: 'Elegant Serif', prompt: 'Refined, high-contrast serif typography, luxury editorial look' },
-  { id: 'bold-sans', label: 'Bold Sans', prompt: 'Massive, heavy sans-serif typography, geometric and impactful' },
-  { id: 'handwritten', label: 'Handwritten', prompt: 'Organic, flowing handwritten brush script, artistic and personal' },
-  { id: 'retro-80s', label: 'Retro 80s', prompt: 'Chrome-plated, synthwave style typography with horizon lines and sparkles' },
-  { id: 'liquid-metal', label: 'Liquid Metal', prompt: 'Fluid, melting chrome typography, surreal and reflective' },
-  { id: 'botanical', label: 'Botanical', prompt: 'Typography intertwined with vines, flowers, and organic nature elements' },
-];
\ No newline at end of file
+// Plays each clip into a canvas and records the canvas, so clips join back to back with no re-upload.
+// Their sound goes through one Web Audio graph into the same recording. Recording happens in real time:
+// stitching 4 clips of 8s takes about 32s.
+export const concatenateVideos = async (videoUrls: string[], onProgress?: (fraction: number) => void): Promise<Blob> => {
+  if (videoUrls.length === 0) throw new Error("No clips to stitch.");
+  const videos = await Promise.all(videoUrls.map(loadVideo));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = videos[0].videoWidth;
+  canvas.height = videos[0].videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  // Element sources only feed the graph, so unmuting doesn't play the clips out loud
+  const audioContext = new AudioContext();
+  audioContext.resume().catch(() => {});
+  const destination = audioContext.createMediaStreamDestination();
+  for (const video of videos) {
+    audioContext.createMediaElementSource(video).connect(destination);
+    video.muted = false;
+  }
+
+  const mimeType = pickRecorderMimeType();
+  const stream = new MediaStream([...canvas.captureStream(30).getVideoTracks(), ...destination.stream.getAudioTracks()]);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const totalDuration = videos.reduce((sum, v) => sum + (v.duration || 0), 0) || 1;
+  let elapsedBefore = 0;
+
+  recorder.start();
+  try {
+    for (const [index, video] of videos.entries()) {
+      await new Promise<void>((resolve, reject) => {
+        let frameHandle = 0;
+        const finish = (error?: Error) => {
+          cancelAnimationFrame(frameHandle);
+          clearTimeout(stallTimeout);
+          video.onended = null;
+          video.onerror = null;
+          if (error) reject(error);
+          else resolve();
+        };
+        const stallTimeout = setTimeout(
+          () => finish(new Error(`Clip ${index + 1} stopped playing.`)),
+          (video.duration || 8) * 1000 + CLIP_STALL_MARGIN_MS
+        );
+        const draw = () => {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          onProgress?.(Math.min(1, (elapsedBefore + video.currentTime) / totalDuration));
+          if (!video.ended) frameHandle = requestAnimationFrame(draw);
+        };
+        video.onended = () => {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          finish();
+        };
+        video.onerror = () => finish(new Error(`Clip ${index + 1} failed to play.`));
+        video.play().then(draw).catch(finish);
+      });
+      elapsedBefore += video.duration || 0;
+    }
+  } finally {
+    videos.forEach(video => video.pause());
+    recorder.stop();
+    await stopped;
+    audioContext.close().catch(() => {});
+  }
+  onProgress?.(1);
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] || 'video/webm' });
+};
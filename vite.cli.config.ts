@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node entry points: the headless CLI, the key-holding proxy and the fake upstream used to
+// test it. Unlike the app build nothing is inlined from .env: each reads GEMINI_API_KEY at run time, and
+// packages stay external so @google/genai loads its Node build.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      input: {
+        'typemotion': 'cli/typemotion.ts',
+        'typemotion-proxy': 'server/proxy.ts',
+        'fake-upstream': 'server/fakeUpstream.ts'
+      },
+      output: {
+        entryFileNames: '[name].js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
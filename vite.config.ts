@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Behind the proxy the key stays on the server and is never inlined into the bundle
+    const apiKey = env.TYPEMOTION_PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,11 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL),
+        'process.env.TYPEMOTION_PROVIDER': JSON.stringify(env.TYPEMOTION_PROVIDER),
+        'process.env.TYPEMOTION_PROXY_URL': JSON.stringify(env.TYPEMOTION_PROXY_URL)
       },
       resolve: {
         alias: {